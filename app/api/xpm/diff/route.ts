@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { diffXPMPrograms } from "@/lib/services/xpm-diff"
+import { parseXPM } from "@/lib/services/xpm-parser"
+import { repairXPM } from "@/lib/services/xpm-repair"
+import { XMLParseError } from "@/lib/services/xml-parser"
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const original = formData.get("original") as File
+    const fixed = formData.get("fixed") as File | null
+
+    if (!original) {
+      return NextResponse.json({ error: "No original file provided" }, { status: 400 })
+    }
+
+    // Without a fixed file, diff the original against its repaired version
+    if (!fixed) {
+      const repair = repairXPM(await original.text())
+
+      return NextResponse.json({
+        success: true,
+        entries: diffXPMPrograms(repair.original, repair.program),
+        content: repair.content,
+      })
+    }
+
+    const entries = diffXPMPrograms(parseXPM(await original.text()), parseXPM(await fixed.text()))
+
+    return NextResponse.json({
+      success: true,
+      entries,
+    })
+  } catch (error) {
+    if (error instanceof XMLParseError) {
+      return NextResponse.json({ error: error.message, line: error.line, column: error.column }, { status: 400 })
+    }
+
+    console.error("XPM diff error:", error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { repairXPM } from "@/lib/services/xpm-repair"
+import { XPM_FORMATS, type XPMFormat } from "@/lib/services/xpm-serializer"
+import { XMLParseError } from "@/lib/services/xml-parser"
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get("file") as File
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    }
+
+    // Optional comma-separated rule IDs and output format
+    const rules = formData.get("rules") as string | null
+    const format = (formData.get("format") as string | null) || "mpc"
+
+    if (!XPM_FORMATS.includes(format as XPMFormat)) {
+      return NextResponse.json({ error: `Unknown format "${format}"` }, { status: 400 })
+    }
+
+    const { content, changes, unknownElements } = repairXPM(await file.text(), {
+      rules: rules ? rules.split(",").map((rule) => rule.trim()) : undefined,
+      format: format as XPMFormat,
+    })
+
+    return NextResponse.json({
+      success: true,
+      content,
+      changes,
+      unknownElements,
+    })
+  } catch (error) {
+    if (error instanceof XMLParseError) {
+      return NextResponse.json({ error: error.message, line: error.line, column: error.column }, { status: 400 })
+    }
+
+    console.error("XPM fix error:", error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
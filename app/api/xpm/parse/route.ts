@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { parseXPMDocument } from "@/lib/services/xpm-parser"
+import { XMLParseError } from "@/lib/services/xml-parser"
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get("file") as File
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    }
+
+    const { program, unknownElements } = parseXPMDocument(await file.text())
+
+    return NextResponse.json({
+      success: true,
+      program,
+      unknownElements,
+    })
+  } catch (error) {
+    if (error instanceof XMLParseError) {
+      return NextResponse.json({ error: error.message, line: error.line, column: error.column }, { status: 400 })
+    }
+
+    console.error("XPM parse error:", error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    )
+  }
+}
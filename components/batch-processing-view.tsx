@@ -1,12 +1,15 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import SampleManager, { type Sample } from "@/lib/sample-manager"
 import { BatchProcessor, type BatchProcessingOptions, type BatchProcessingResult } from "@/lib/services/batch-processor"
 import { SampleScanner } from "@/lib/services/sample-scanner"
+import type { WAVEncodeOptions } from "@/lib/services/wav-encoder"
+import WAVFormatOptions from "./wav-format-options"
+import { useSamples } from "@/hooks/use-services"
 
 export default function BatchProcessingView() {
-  const [samples, setSamples] = useState<Sample[]>([])
+  const samples = useSamples()
   const [selectedSamples, setSelectedSamples] = useState<string[]>([])
   const [isProcessing, setIsProcessing] = useState<boolean>(false)
   const [message, setMessage] = useState<string | null>(null)
@@ -21,11 +24,7 @@ export default function BatchProcessingView() {
     silenceThreshold: 0.01,
   })
   const [showFolderPicker, setShowFolderPicker] = useState<boolean>(false)
-
-  useEffect(() => {
-    const sampleManager = SampleManager.getInstance()
-    setSamples(sampleManager.getAllSamples())
-  }, [])
+  const [audioFormat, setAudioFormat] = useState<WAVEncodeOptions>({})
 
   const handleSampleSelect = (sampleId: string) => {
     setSelectedSamples((prev) => {
@@ -150,6 +149,37 @@ export default function BatchProcessingView() {
     }
   }
 
+  const handleExportSamples = () => {
+    if (selectedSamples.length === 0) {
+      setMessage("Please select samples first")
+      return
+    }
+
+    try {
+      const sampleManager = SampleManager.getInstance()
+      const selectedSampleObjects = selectedSamples
+        .map((id) => sampleManager.getSample(id))
+        .filter((sample): sample is Sample => !!sample)
+
+      const blob = new BatchProcessor().exportSamples(selectedSampleObjects, audioFormat)
+
+      // Create a download link
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = "samples.zip"
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      setMessage(`Exported ${selectedSampleObjects.length} samples`)
+    } catch (error) {
+      console.error("Failed to export samples:", error)
+      setMessage(error instanceof Error ? error.message : "Failed to export samples")
+    }
+  }
+
   const handleScanFolder = async () => {
     try {
       // Request a directory from the user
@@ -172,10 +202,6 @@ export default function BatchProcessingView() {
       setMessage(
         `Scan complete: ${result.loadedFiles} samples loaded, ${result.skippedFiles} skipped, ${result.errors.length} errors`,
       )
-
-      // Update samples list
-      const sampleManager = SampleManager.getInstance()
-      setSamples(sampleManager.getAllSamples())
     } catch (error) {
       console.error("Failed to scan folder:", error)
       setMessage("Failed to scan folder")
@@ -303,6 +329,16 @@ export default function BatchProcessingView() {
               Detect Loop Points
             </button>
           </div>
+          <div className="mt-2 flex items-center space-x-2">
+            <WAVFormatOptions value={audioFormat} onChange={setAudioFormat} disabled={isProcessing} />
+            <button
+              className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded flex-1"
+              onClick={handleExportSamples}
+              disabled={isProcessing || selectedSamples.length === 0}
+            >
+              Export WAVs
+            </button>
+          </div>
           <div className="mt-2">
             <button
               className="bg-blue-700 text-white py-1 px-3 text-xs hover:bg-blue-600 rounded w-full"
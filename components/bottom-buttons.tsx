@@ -7,10 +7,21 @@ interface BottomButtonsProps {
 }
 
 export default function BottomButtons({ onButtonClick, activeButton }: BottomButtonsProps) {
-  const buttons = ["SAMPLE", "DRUMKIT", "CONVERT", "XPM", "EXPANSION", "BATCH", "SETTINGS", "HELP"]
+  const buttons = [
+    "SAMPLE",
+    "DRUMKIT",
+    "CONVERT",
+    "XPM",
+    "EXPANSION",
+    "PROJECT",
+    "HISTORY",
+    "BATCH",
+    "SETTINGS",
+    "HELP",
+  ]
 
   return (
-    <div className="grid grid-cols-4 gap-2 p-2 bg-gray-800 rounded-md">
+    <div className="grid grid-cols-5 gap-2 p-2 bg-gray-800 rounded-md">
       {buttons.map((button) => (
         <Button
           key={button}
@@ -2,9 +2,23 @@
 
 import { useState, useEffect } from "react"
 import AudioContextManager from "@/lib/audio-context"
+import HistoryService from "@/lib/services/history-service"
 
 export default function ControlKnobs() {
   const [knobValues, setKnobValues] = useState([0.5, 0.5, 0.5, 0.5, 0.5])
+  const [undoCount, setUndoCount] = useState(0)
+  const [canUndo, setCanUndo] = useState(false)
+
+  useEffect(() => {
+    const history = HistoryService.getInstance()
+    const updateUndo = () => {
+      setUndoCount(history.getUndoEntries().length)
+      setCanUndo(history.canUndo())
+    }
+
+    updateUndo()
+    return history.subscribe(updateUndo)
+  }, [])
 
   useEffect(() => {
     // Set master volume based on first knob
@@ -43,12 +57,17 @@ export default function ControlKnobs() {
         </div>
       ))}
 
-      <div className="relative">
+      <button
+        className="relative disabled:opacity-50"
+        onClick={() => HistoryService.getInstance().undo()}
+        disabled={!canUndo}
+        title="Undo (Ctrl+Z)"
+      >
         <div className="w-14 h-14 rounded-full bg-gray-800 border-4 border-gray-700 shadow-lg flex items-center justify-center">
-          <div className="text-white text-xl">3</div>
+          <div className="text-white text-xl">{undoCount}</div>
           <div className="absolute -bottom-4 text-xs text-gray-800">UNDO</div>
         </div>
-      </div>
+      </button>
     </div>
   )
 }
@@ -1,25 +1,70 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import DrumKitService, { type DrumKit, type DrumPad } from "@/lib/services/drumkit-service"
+import DrumKitService, { type DrumPad } from "@/lib/services/drumkit-service"
+import HistoryService from "@/lib/services/history-service"
 import SampleManager, { type Sample } from "@/lib/sample-manager"
+import { sanitizeFilename } from "@/lib/services/mpc-filename"
+import type { WAVEncodeOptions } from "@/lib/services/wav-encoder"
+import WAVFormatOptions from "./wav-format-options"
+import ProgramList from "./program-list"
+import { useDrumKits } from "@/hooks/use-services"
 
 interface DrumKitViewProps {
   selectedPad: number | null
 }
 
 export default function DrumKitView({ selectedPad }: DrumKitViewProps) {
-  const [currentKit, setCurrentKit] = useState<DrumKit | null>(null)
+  const { kits, currentKit } = useDrumKits()
   const [currentBank, setCurrentBank] = useState<string>("A")
   const [exportName, setExportName] = useState<string>("My Drum Kit")
   const [includePreview, setIncludePreview] = useState<boolean>(true)
   const [fixXPM, setFixXPM] = useState<boolean>(true)
+  const [packageSamples, setPackageSamples] = useState<boolean>(true)
+  const [audioFormat, setAudioFormat] = useState<WAVEncodeOptions>({})
   const [message, setMessage] = useState<string | null>(null)
 
+  // Export under the kit's name, following renames and switching kits
   useEffect(() => {
+    if (currentKit) {
+      setExportName(currentKit.name)
+    }
+  }, [currentKit?.id, currentKit?.name])
+
+  const handleSelectKit = (kitId: string) => {
+    DrumKitService.getInstance().setCurrentKit(kitId)
+  }
+
+  const handleCreateKit = () => {
+    const drumKitService = DrumKitService.getInstance()
+    HistoryService.getInstance().execute("New kit", () => {
+      const kit = drumKitService.createKit(`Kit ${kits.length + 1}`)
+      drumKitService.setCurrentKit(kit.id)
+    })
+  }
+
+  const handleRenameKit = (kitId: string, name: string) => {
+    HistoryService.getInstance().execute(`Rename kit to ${name}`, () =>
+      DrumKitService.getInstance().renameKit(kitId, name),
+    )
+  }
+
+  const handleDuplicateKit = (kitId: string) => {
     const drumKitService = DrumKitService.getInstance()
-    setCurrentKit(drumKitService.getCurrentKit())
-  }, [])
+    HistoryService.getInstance().execute("Duplicate kit", () => {
+      const copy = drumKitService.duplicateKit(kitId)
+      if (copy) {
+        drumKitService.setCurrentKit(copy.id)
+      }
+    })
+  }
+
+  const handleDeleteKit = (kitId: string) => {
+    const kit = DrumKitService.getInstance().getKit(kitId)
+    if (!kit || !window.confirm(`Delete the kit "${kit.name}"?`)) return
+
+    HistoryService.getInstance().execute(`Delete ${kit.name}`, () => DrumKitService.getInstance().deleteKit(kitId))
+  }
 
   const handleBankChange = (bank: string) => {
     setCurrentBank(bank)
@@ -36,13 +81,15 @@ export default function DrumKitView({ selectedPad }: DrumKitViewProps) {
         name: exportName,
         includePreview,
         fixXPM,
+        packageSamples,
+        audio: audioFormat,
       })
 
       // Create a download link
       const url = URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = `${exportName}.xpm`
+      a.download = sanitizeFilename(`${exportName}.${packageSamples ? "zip" : "xpm"}`)
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
@@ -74,13 +121,12 @@ export default function DrumKitView({ selectedPad }: DrumKitViewProps) {
       const sampleIds = samples.map((sample) => sample.id)
 
       // Auto-assign samples to pads
-      const assignedCount = await drumKitService.autoAssignSamples(currentKit.id, sampleIds)
+      const assignedCount = await HistoryService.getInstance().executeAsync("Auto-assign samples", () =>
+        drumKitService.autoAssignSamples(currentKit.id, sampleIds),
+      )
 
       setMessage(`Auto-assigned ${assignedCount} samples to pads`)
 
-      // Refresh current kit
-      setCurrentKit(drumKitService.getCurrentKit())
-
       // Clear message after a few seconds
       setTimeout(() => setMessage(null), 3000)
     } catch (error) {
@@ -133,6 +179,17 @@ export default function DrumKitView({ selectedPad }: DrumKitViewProps) {
       </div>
 
       <div className="flex-1 overflow-y-auto">
+        <ProgramList
+          title="Kits"
+          programs={kits}
+          currentId={currentKit.id}
+          onSelect={handleSelectKit}
+          onCreate={handleCreateKit}
+          onRename={handleRenameKit}
+          onDuplicate={handleDuplicateKit}
+          onDelete={handleDeleteKit}
+        />
+
         <div className="grid grid-cols-2 gap-2">
           {getPadsForCurrentBank().map((pad) => {
             const sample = getSampleForPad(pad)
@@ -193,8 +250,20 @@ export default function DrumKitView({ selectedPad }: DrumKitViewProps) {
             />
             <span className="text-white text-xs">Fix XPM</span>
           </label>
+
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={packageSamples}
+              onChange={(e) => setPackageSamples(e.target.checked)}
+              className="bg-gray-800"
+            />
+            <span className="text-white text-xs">Package ZIP</span>
+          </label>
         </div>
 
+        {packageSamples && <WAVFormatOptions value={audioFormat} onChange={setAudioFormat} />}
+
         <div className="flex justify-between items-center">
           <div className="text-xs text-gray-400">{message && <span>{message}</span>}</div>
           <button
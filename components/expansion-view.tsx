@@ -0,0 +1,151 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef } from "react"
+import { ExpansionBuilder } from "@/lib/services/expansion-builder"
+import { sanitizeFilename } from "@/lib/services/mpc-filename"
+import type { WAVEncodeOptions } from "@/lib/services/wav-encoder"
+import WAVFormatOptions from "./wav-format-options"
+import { useDrumKits, useInstruments } from "@/hooks/use-services"
+
+export default function ExpansionView() {
+  const [title, setTitle] = useState<string>("My Expansion")
+  const [manufacturer, setManufacturer] = useState<string>("MPC Fixer")
+  const [version, setVersion] = useState<string>("1.0.0.0")
+  const [description, setDescription] = useState<string>("")
+  const [image, setImage] = useState<File | null>(null)
+  const [audioFormat, setAudioFormat] = useState<WAVEncodeOptions>({})
+  const { kits } = useDrumKits()
+  const { instruments } = useInstruments()
+  const [selectedKitIds, setSelectedKitIds] = useState<string[]>([])
+  const [selectedInstrumentIds, setSelectedInstrumentIds] = useState<string[]>([])
+  const [isBuilding, setIsBuilding] = useState<boolean>(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const imageInputRef = useRef<HTMLInputElement>(null)
+
+  const toggleId = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id])
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      setImage(e.target.files[0])
+    }
+  }
+
+  const handleBuild = async () => {
+    setIsBuilding(true)
+    setMessage("Building expansion...")
+
+    try {
+      const builder = new ExpansionBuilder(audioFormat)
+      const blob = await builder.buildExpansion(
+        { title, manufacturer, version, description },
+        { kitIds: selectedKitIds, instrumentIds: selectedInstrumentIds, image },
+      )
+
+      // Create a download link
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = sanitizeFilename(`${title}.zip`)
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      setMessage("Expansion built successfully!")
+    } catch (error) {
+      console.error("Failed to build expansion:", error)
+      setMessage(error instanceof Error ? error.message : "Failed to build expansion")
+    } finally {
+      setIsBuilding(false)
+    }
+  }
+
+  return (
+    <div className="w-full h-full bg-black rounded-md p-2 flex flex-col">
+      <div className="text-white text-center py-2 border-b border-gray-700 mb-2">EXPANSION BUILDER</div>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="bg-gray-800 p-2 rounded mb-4 space-y-2">
+          <div className="text-white text-xs">Details</div>
+          {[
+            { label: "Title", value: title, onChange: setTitle },
+            { label: "Manufacturer", value: manufacturer, onChange: setManufacturer },
+            { label: "Version", value: version, onChange: setVersion },
+          ].map((field) => (
+            <div key={field.label} className="flex items-center space-x-2">
+              <span className="text-gray-400 text-xs w-24">{field.label}</span>
+              <input
+                type="text"
+                value={field.value}
+                onChange={(e) => field.onChange(e.target.value)}
+                className="flex-1 bg-gray-700 text-white text-xs p-1 rounded"
+              />
+            </div>
+          ))}
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description"
+            className="w-full bg-gray-700 text-white text-xs p-1 rounded h-12"
+          />
+          <div>
+            <input
+              type="file"
+              ref={imageInputRef}
+              className="hidden"
+              accept=".jpg,.jpeg,.png"
+              onChange={handleImageChange}
+            />
+            <button
+              className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded w-full"
+              onClick={() => imageInputRef.current?.click()}
+            >
+              Select Artwork
+            </button>
+            {image && <div className="text-gray-400 text-xs mt-1">Selected: {image.name}</div>}
+          </div>
+          <WAVFormatOptions value={audioFormat} onChange={setAudioFormat} disabled={isBuilding} />
+        </div>
+
+        <div className="bg-gray-800 p-2 rounded mb-4">
+          <div className="text-white text-xs mb-2">Programs</div>
+          {kits.map((kit) => (
+            <label key={kit.id} className="flex items-center space-x-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={selectedKitIds.includes(kit.id)}
+                onChange={() => setSelectedKitIds((ids) => toggleId(ids, kit.id))}
+              />
+              <span>Drum: {kit.name}</span>
+            </label>
+          ))}
+          {instruments.map((instrument) => (
+            <label key={instrument.id} className="flex items-center space-x-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={selectedInstrumentIds.includes(instrument.id)}
+                onChange={() => setSelectedInstrumentIds((ids) => toggleId(ids, instrument.id))}
+              />
+              <span>Keygroup: {instrument.name}</span>
+            </label>
+          ))}
+        </div>
+
+        <button
+          className="bg-green-700 text-white py-1 px-3 text-xs hover:bg-green-600 rounded w-full"
+          onClick={handleBuild}
+          disabled={isBuilding || (selectedKitIds.length === 0 && selectedInstrumentIds.length === 0)}
+        >
+          {isBuilding ? "Building..." : "Build Expansion"}
+        </button>
+      </div>
+
+      <div className="mt-2 flex justify-between items-center">
+        <div className="text-xs text-gray-400">{message}</div>
+      </div>
+    </div>
+  )
+}
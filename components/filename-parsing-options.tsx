@@ -0,0 +1,87 @@
+"use client"
+
+import { useState } from "react"
+import {
+  getFilenameTokenizerOptions,
+  setFilenameTokenizerOptions,
+  tokenizeFilename,
+  type FilenameTokenizerOptions,
+} from "@/lib/services/filename-tokenizer"
+import { midiToNoteName } from "@/lib/services/pitch-detection"
+
+export default function FilenameParsingOptions() {
+  const [options, setOptions] = useState<FilenameTokenizerOptions>(getFilenameTokenizerOptions)
+  const [templateText, setTemplateText] = useState<string>((options.templates || []).join("\n"))
+  const [testName, setTestName] = useState<string>("Piano_Db3_v2_rr1.wav")
+  const [error, setError] = useState<string | null>(null)
+
+  const applyOptions = (next: FilenameTokenizerOptions) => {
+    try {
+      setFilenameTokenizerOptions(next)
+      setOptions(next)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid template")
+    }
+  }
+
+  const handleTemplatesBlur = () => {
+    const templates = templateText
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+    applyOptions({ ...options, templates })
+  }
+
+  const tokens = tokenizeFilename(testName, options)
+  const middleCOctave = options.middleCOctave ?? 4
+  const noteName = tokens.note !== null ? midiToNoteName(tokens.note - (middleCOctave === 3 ? 12 : 0)) : null
+
+  return (
+    <div className="bg-gray-800 p-2 rounded space-y-2">
+      <div className="text-white text-xs">Filename Parsing</div>
+
+      <div className="flex items-center space-x-2">
+        <span className="text-white text-xs">Middle C:</span>
+        <select
+          value={middleCOctave}
+          onChange={(e) => applyOptions({ ...options, middleCOctave: Number(e.target.value) as 3 | 4 })}
+          className="bg-gray-900 text-white text-xs p-1 rounded"
+        >
+          <option value={3}>C3 = 60</option>
+          <option value={4}>C4 = 60</option>
+        </select>
+      </div>
+
+      <div>
+        <div className="text-gray-400 text-xs mb-1">
+          Templates, one per line: {"{note}"} {"{midi}"} {"{layer}"} {"{velocity}"} {"{dynamic}"} {"{rr}"} {"{*}"}
+        </div>
+        <textarea
+          value={templateText}
+          onChange={(e) => setTemplateText(e.target.value)}
+          onBlur={handleTemplatesBlur}
+          placeholder="{*}_{note}_v{layer}_rr{rr}"
+          rows={2}
+          className="w-full bg-gray-900 text-white text-xs p-1 rounded"
+        />
+        {error && <div className="text-red-400 text-xs">{error}</div>}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <span className="text-white text-xs">Test:</span>
+        <input
+          type="text"
+          value={testName}
+          onChange={(e) => setTestName(e.target.value)}
+          className="flex-1 bg-gray-900 text-white text-xs p-1 rounded"
+        />
+      </div>
+      <div className="text-gray-400 text-xs">
+        Note: {noteName ? `${noteName} (${tokens.note})` : "-"}
+        {" · "}Layer: {tokens.velocityLayer ?? "-"} · Velocity: {tokens.velocity ?? "-"} · Dynamic:{" "}
+        {tokens.dynamic ?? "-"} · Round robin: {tokens.roundRobin ?? "-"}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import HistoryService, { type HistoryEntry } from "@/lib/services/history-service"
+
+export default function HistoryView() {
+  const [undoEntries, setUndoEntries] = useState<HistoryEntry[]>([])
+  const [redoEntries, setRedoEntries] = useState<HistoryEntry[]>([])
+  const [canUndo, setCanUndo] = useState(false)
+  const [canRedo, setCanRedo] = useState(false)
+
+  useEffect(() => {
+    const history = HistoryService.getInstance()
+    const refresh = () => {
+      setUndoEntries(history.getUndoEntries())
+      setRedoEntries(history.getRedoEntries())
+      setCanUndo(history.canUndo())
+      setCanRedo(history.canRedo())
+    }
+
+    refresh()
+    return history.subscribe(refresh)
+  }, [])
+
+  const history = HistoryService.getInstance()
+
+  return (
+    <div className="w-full h-full bg-black rounded-md p-2 flex flex-col">
+      <div className="text-white text-center py-2 border-b border-gray-700 mb-2">HISTORY</div>
+
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {redoEntries
+          .slice()
+          .reverse()
+          .map((entry) => (
+            <div key={entry.id} className="p-1 text-gray-500 text-xs line-through">
+              {entry.label}
+            </div>
+          ))}
+
+        {undoEntries.map((entry, index) => (
+          <div
+            key={entry.id}
+            className={`p-1 rounded text-xs cursor-pointer hover:bg-gray-700 ${
+              index === 0 ? "bg-gray-800 text-white" : "text-gray-300"
+            }`}
+            onClick={() => history.undoTo(entry.id)}
+            title="Click to undo back to and including this change"
+          >
+            {entry.label}
+          </div>
+        ))}
+
+        {undoEntries.length === 0 && redoEntries.length === 0 && (
+          <div className="text-gray-400 text-xs text-center py-4">Nothing to undo yet</div>
+        )}
+      </div>
+
+      <div className="mt-2 flex justify-between items-center">
+        <div className="text-xs text-gray-400">Ctrl+Z to undo, Ctrl+Shift+Z or Ctrl+Y to redo</div>
+        <div className="flex space-x-2">
+          <button
+            className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded disabled:opacity-50"
+            onClick={() => history.undo()}
+            disabled={!canUndo}
+          >
+            Undo
+          </button>
+          <button
+            className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded disabled:opacity-50"
+            onClick={() => history.redo()}
+            disabled={!canRedo}
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,15 +1,30 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import InstrumentService, { type Instrument, type Keygroup } from "@/lib/services/instrument-service"
+import InstrumentService, { type Keygroup } from "@/lib/services/instrument-service"
+import HistoryService from "@/lib/services/history-service"
 import SampleManager, { type Sample } from "@/lib/sample-manager"
+import { sanitizeFilename } from "@/lib/services/mpc-filename"
+import type { WAVEncodeOptions } from "@/lib/services/wav-encoder"
+import WAVFormatOptions from "./wav-format-options"
+import FilenameParsingOptions from "./filename-parsing-options"
+import KeyRangeCoverage from "./key-range-coverage"
+import ProgramList from "./program-list"
+import type { KeyRangeStrategy } from "@/lib/services/key-ranges"
+import { useInstruments } from "@/hooks/use-services"
 
 export default function InstrumentView() {
-  const [currentInstrument, setCurrentInstrument] = useState<Instrument | null>(null)
+  const { instruments, currentInstrument } = useInstruments()
   const [selectedKeygroupId, setSelectedKeygroupId] = useState<string | null>(null)
   const [exportName, setExportName] = useState<string>("My Instrument")
   const [includePreview, setIncludePreview] = useState<boolean>(true)
   const [fixXPM, setFixXPM] = useState<boolean>(true)
+  const [packageSamples, setPackageSamples] = useState<boolean>(true)
+  const [audioFormat, setAudioFormat] = useState<WAVEncodeOptions>({})
+  const [retuneSamples, setRetuneSamples] = useState<boolean>(false)
+  const [showNaming, setShowNaming] = useState<boolean>(false)
+  const [keyRangeType, setKeyRangeType] = useState<KeyRangeStrategy["type"]>("midpoint")
+  const [keyRangeAmount, setKeyRangeAmount] = useState<number>(6)
   const [useMultiLayerExport, setUseMultiLayerExport] = useState<boolean>(false)
   const [message, setMessage] = useState<string | null>(null)
   const [showAddKeygroup, setShowAddKeygroup] = useState<boolean>(false)
@@ -21,10 +36,53 @@ export default function InstrumentView() {
   const [newVelocityHigh, setNewVelocityHigh] = useState<number>(127)
   const [validationResult, setValidationResult] = useState<{ status: string; issues: string[] } | null>(null)
 
+  // Export under the instrument's name, following renames and switching instruments
   useEffect(() => {
+    if (currentInstrument) {
+      setExportName(currentInstrument.name)
+    }
+  }, [currentInstrument?.id, currentInstrument?.name])
+
+  useEffect(() => {
+    setSelectedKeygroupId(null)
+  }, [currentInstrument?.id])
+
+  const handleSelectInstrument = (instrumentId: string) => {
+    InstrumentService.getInstance().setCurrentInstrument(instrumentId)
+  }
+
+  const handleCreateInstrument = () => {
     const instrumentService = InstrumentService.getInstance()
-    setCurrentInstrument(instrumentService.getCurrentInstrument())
-  }, [])
+    HistoryService.getInstance().execute("New instrument", () => {
+      const instrument = instrumentService.createInstrument(`Instrument ${instruments.length + 1}`)
+      instrumentService.setCurrentInstrument(instrument.id)
+    })
+  }
+
+  const handleRenameInstrument = (instrumentId: string, name: string) => {
+    HistoryService.getInstance().execute(`Rename instrument to ${name}`, () =>
+      InstrumentService.getInstance().renameInstrument(instrumentId, name),
+    )
+  }
+
+  const handleDuplicateInstrument = (instrumentId: string) => {
+    const instrumentService = InstrumentService.getInstance()
+    HistoryService.getInstance().execute("Duplicate instrument", () => {
+      const copy = instrumentService.duplicateInstrument(instrumentId)
+      if (copy) {
+        instrumentService.setCurrentInstrument(copy.id)
+      }
+    })
+  }
+
+  const handleDeleteInstrument = (instrumentId: string) => {
+    const instrument = InstrumentService.getInstance().getInstrument(instrumentId)
+    if (!instrument || !window.confirm(`Delete the instrument "${instrument.name}"?`)) return
+
+    HistoryService.getInstance().execute(`Delete ${instrument.name}`, () =>
+      InstrumentService.getInstance().deleteInstrument(instrumentId),
+    )
+  }
 
   const handleExport = async () => {
     if (!currentInstrument) return
@@ -37,6 +95,9 @@ export default function InstrumentView() {
         name: exportName,
         includePreview,
         fixXPM,
+        packageSamples,
+        audio: audioFormat,
+        retuneSamples,
         useMultiLayerExport,
       })
 
@@ -44,7 +105,7 @@ export default function InstrumentView() {
       const url = URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = `${exportName}.xpm`
+      a.download = sanitizeFilename(`${exportName}.${packageSamples ? "zip" : "xpm"}`)
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
@@ -63,6 +124,27 @@ export default function InstrumentView() {
     }
   }
 
+  // Max transpose and fixed width take the amount as semitones and keys
+  const getKeyRangeStrategy = (): KeyRangeStrategy => {
+    if (keyRangeType === "maxTranspose") return { type: keyRangeType, semitones: keyRangeAmount }
+    if (keyRangeType === "fixedWidth") return { type: keyRangeType, width: keyRangeAmount }
+    return { type: keyRangeType }
+  }
+
+  const handleApplyKeyRanges = () => {
+    if (!currentInstrument) return
+
+    const instrumentService = InstrumentService.getInstance()
+    const gaps = HistoryService.getInstance().execute("Apply key ranges", () =>
+      instrumentService.applyKeyRanges(currentInstrument.id, getKeyRangeStrategy()),
+    )
+
+    setMessage(gaps.length > 0 ? `Key ranges applied, ${gaps.length} gaps left uncovered` : "Key ranges applied")
+
+    // Clear message after a few seconds
+    setTimeout(() => setMessage(null), 3000)
+  }
+
   const handleAutoMap = async () => {
     if (!currentInstrument) return
 
@@ -76,13 +158,12 @@ export default function InstrumentView() {
       const sampleIds = samples.map((sample) => sample.id)
 
       // Auto-map samples to keygroups
-      const mappedCount = await instrumentService.autoMapSamples(currentInstrument.id, sampleIds)
+      const mappedCount = await HistoryService.getInstance().executeAsync("Auto-map samples", () =>
+        instrumentService.autoMapSamples(currentInstrument.id, sampleIds, { keyRange: getKeyRangeStrategy() }),
+      )
 
       setMessage(`Auto-mapped ${mappedCount} samples to keygroups`)
 
-      // Refresh current instrument
-      setCurrentInstrument(instrumentService.getCurrentInstrument())
-
       // Clear message after a few seconds
       setTimeout(() => setMessage(null), 3000)
     } catch (error) {
@@ -103,16 +184,12 @@ export default function InstrumentView() {
     if (!currentInstrument) return
 
     const instrumentService = InstrumentService.getInstance()
-    const keygroupId = instrumentService.addKeygroup(
-      currentInstrument.id,
-      newKeygroupLow,
-      newKeygroupHigh,
-      newKeygroupRoot,
+    const keygroupId = HistoryService.getInstance().execute("Add keygroup", () =>
+      instrumentService.addKeygroup(currentInstrument.id, newKeygroupLow, newKeygroupHigh, newKeygroupRoot),
     )
 
     if (keygroupId) {
       setMessage("Keygroup added successfully")
-      setCurrentInstrument(instrumentService.getCurrentInstrument())
       setShowAddKeygroup(false)
 
       // Clear message after a few seconds
@@ -124,16 +201,12 @@ export default function InstrumentView() {
     if (!currentInstrument || !selectedKeygroupId) return
 
     const instrumentService = InstrumentService.getInstance()
-    const layerId = instrumentService.addVelocityLayer(
-      currentInstrument.id,
-      selectedKeygroupId,
-      newVelocityLow,
-      newVelocityHigh,
+    const layerId = HistoryService.getInstance().execute("Add velocity layer", () =>
+      instrumentService.addVelocityLayer(currentInstrument.id, selectedKeygroupId, newVelocityLow, newVelocityHigh),
     )
 
     if (layerId) {
       setMessage("Velocity layer added successfully")
-      setCurrentInstrument(instrumentService.getCurrentInstrument())
       setShowAddVelocityLayer(false)
 
       // Clear message after a few seconds
@@ -328,6 +401,51 @@ export default function InstrumentView() {
           </div>
         ) : (
           <div className="space-y-2">
+            <ProgramList
+              title="Instruments"
+              programs={instruments}
+              currentId={currentInstrument.id}
+              onSelect={handleSelectInstrument}
+              onCreate={handleCreateInstrument}
+              onRename={handleRenameInstrument}
+              onDuplicate={handleDuplicateInstrument}
+              onDelete={handleDeleteInstrument}
+            />
+
+            <KeyRangeCoverage keygroups={currentInstrument.keygroups} />
+
+            <div className="flex items-center space-x-2">
+              <span className="text-white text-xs">Key Ranges:</span>
+              <select
+                value={keyRangeType}
+                onChange={(e) => setKeyRangeType(e.target.value as KeyRangeStrategy["type"])}
+                className="bg-gray-800 text-white text-xs p-1 rounded"
+              >
+                <option value="midpoint">Midpoint</option>
+                <option value="stretchUp">Stretch up only</option>
+                <option value="stretchDown">Stretch down only</option>
+                <option value="maxTranspose">Max transpose</option>
+                <option value="fixedWidth">Fixed width</option>
+              </select>
+              {(keyRangeType === "maxTranspose" || keyRangeType === "fixedWidth") && (
+                <input
+                  type="number"
+                  min="1"
+                  max="127"
+                  value={keyRangeAmount}
+                  onChange={(e) => setKeyRangeAmount(Number(e.target.value))}
+                  className="w-12 bg-gray-800 text-white text-xs p-1 rounded"
+                  title={keyRangeType === "maxTranspose" ? "Semitones" : "Keys"}
+                />
+              )}
+              <button
+                className="bg-gray-800 text-white py-1 px-2 text-xs hover:bg-gray-700 rounded"
+                onClick={handleApplyKeyRanges}
+              >
+                Apply
+              </button>
+            </div>
+
             {currentInstrument.keygroups.map((keygroup) => {
               const sample = getSampleForKeygroup(keygroup)
               return (
@@ -363,7 +481,11 @@ export default function InstrumentView() {
                           <span>
                             {layer.lowVelocity}-{layer.highVelocity}
                           </span>
-                          <span>{layer.sampleId ? "Assigned" : "Empty"}</span>
+                          <span>
+                            {layer.sampleId ? "Assigned" : "Empty"}
+                            {layer.fineTune ? ` (${layer.fineTune > 0 ? "+" : ""}${layer.fineTune}c)` : ""}
+                            {layer.roundRobins?.length ? ` + ${layer.roundRobins.length} RR` : ""}
+                          </span>
                         </div>
                       ))}
                     </div>
@@ -378,14 +500,24 @@ export default function InstrumentView() {
       <div className="mt-2 space-y-2">
         <div className="flex justify-between items-center">
           <div className="text-white text-xs">Export Settings</div>
-          <button
-            className="bg-gray-800 text-white py-1 px-3 text-xs hover:bg-gray-700 rounded"
-            onClick={handleAutoMap}
-          >
-            Auto-Map
-          </button>
+          <div className="flex space-x-2">
+            <button
+              className="bg-gray-800 text-white py-1 px-3 text-xs hover:bg-gray-700 rounded"
+              onClick={() => setShowNaming(!showNaming)}
+            >
+              Naming
+            </button>
+            <button
+              className="bg-gray-800 text-white py-1 px-3 text-xs hover:bg-gray-700 rounded"
+              onClick={handleAutoMap}
+            >
+              Auto-Map
+            </button>
+          </div>
         </div>
 
+        {showNaming && <FilenameParsingOptions />}
+
         <div className="flex items-center space-x-2">
           <span className="text-white text-xs">Name:</span>
           <input
@@ -417,6 +549,16 @@ export default function InstrumentView() {
             <span className="text-white text-xs">Fix XPM</span>
           </label>
 
+          <label className="flex items-center space-x-1">
+            <input
+              type="checkbox"
+              checked={packageSamples}
+              onChange={(e) => setPackageSamples(e.target.checked)}
+              className="bg-gray-800"
+            />
+            <span className="text-white text-xs">Package ZIP</span>
+          </label>
+
           <label className="flex items-center space-x-1">
             <input
               type="checkbox"
@@ -428,6 +570,21 @@ export default function InstrumentView() {
           </label>
         </div>
 
+        {packageSamples && (
+          <>
+            <WAVFormatOptions value={audioFormat} onChange={setAudioFormat} />
+            <label className="flex items-center space-x-1">
+              <input
+                type="checkbox"
+                checked={retuneSamples}
+                onChange={(e) => setRetuneSamples(e.target.checked)}
+                className="bg-gray-800"
+              />
+              <span className="text-white text-xs">Resample out-of-tune samples instead of fine tuning</span>
+            </label>
+          </>
+        )}
+
         <div className="flex justify-between items-center">
           <div className="text-xs text-gray-400">{message && <span>{message}</span>}</div>
           <button
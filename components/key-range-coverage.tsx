@@ -0,0 +1,65 @@
+"use client"
+
+import type { Keygroup } from "@/lib/services/instrument-service"
+import { findKeyGaps, keyTranspositions } from "@/lib/services/key-ranges"
+import { midiToNoteName } from "@/lib/services/pitch-detection"
+
+interface KeyRangeCoverageProps {
+  keygroups: Keygroup[]
+}
+
+// Transpositions at or beyond this many semitones are drawn at full strength
+const MAX_SHADED_TRANSPOSE = 12
+
+export default function KeyRangeCoverage({ keygroups }: KeyRangeCoverageProps) {
+  const transpositions = keyTranspositions(keygroups)
+  const gaps = findKeyGaps(keygroups)
+
+  // Green on the root, through yellow to red the further the key is transposed
+  const keyColor = (transpose: number | null): string => {
+    if (transpose === null) return "rgb(31, 41, 55)"
+
+    const amount = Math.min(1, Math.abs(transpose) / MAX_SHADED_TRANSPOSE)
+    return `hsl(${Math.round(120 * (1 - amount))}, 70%, 45%)`
+  }
+
+  const keyTitle = (note: number, transpose: number | null): string => {
+    if (transpose === null) return `${midiToNoteName(note)} (${note}): not covered`
+    if (transpose === 0) return `${midiToNoteName(note)} (${note}): root`
+    return `${midiToNoteName(note)} (${note}): ${transpose > 0 ? "+" : ""}${transpose} semitones from the root`
+  }
+
+  return (
+    <div className="bg-gray-800 p-2 rounded">
+      <div className="flex justify-between items-center mb-1">
+        <div className="text-white text-xs">Key Coverage</div>
+        <div className="text-gray-400 text-xs">
+          {midiToNoteName(0)} - {midiToNoteName(127)}
+        </div>
+      </div>
+
+      <div className="flex h-6">
+        {transpositions.map((transpose, note) => (
+          <div
+            key={note}
+            className={`flex-1 ${note % 12 === 0 ? "border-l border-gray-500" : ""}`}
+            style={{ backgroundColor: keyColor(transpose) }}
+            title={keyTitle(note, transpose)}
+          />
+        ))}
+      </div>
+
+      <div className="text-gray-400 text-xs mt-1">
+        {gaps.length === 0
+          ? "All keys covered"
+          : `Gaps: ${gaps
+              .map((gap) =>
+                gap.lowNote === gap.highNote
+                  ? midiToNoteName(gap.lowNote)
+                  : `${midiToNoteName(gap.lowNote)}-${midiToNoteName(gap.highNote)}`,
+              )
+              .join(", ")}`}
+      </div>
+    </div>
+  )
+}
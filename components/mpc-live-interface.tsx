@@ -19,12 +19,18 @@ import BatchProcessingView from "@/components/batch-processing-view"
 import XPMImportView from "@/components/xpm-import-view"
 import MIDIConverterView from "@/components/midi-converter-view"
 import JavaConverterView from "@/components/java-converter-view"
+import ExpansionView from "@/components/expansion-view"
+import ProjectView from "@/components/project-view"
+import HistoryView from "@/components/history-view"
 
 import SampleManager, { type Sample } from "@/lib/sample-manager"
 import Sequencer from "@/lib/sequencer"
 import MIDIController from "@/lib/midi-controller"
 import DrumKitService from "@/lib/services/drumkit-service"
 import InstrumentService from "@/lib/services/instrument-service"
+import ProjectService from "@/lib/services/project-service"
+import HistoryService from "@/lib/services/history-service"
+import { useSequencerTransport } from "@/hooks/use-services"
 
 type ViewMode =
   | "main"
@@ -41,15 +47,18 @@ type ViewMode =
   | "xpm-import"
   | "midi-converter"
   | "java-converter"
+  | "expansion"
+  | "project"
+  | "history"
 
 export default function MPCLiveInterface() {
   const [audioFile, setAudioFile] = useState<File | null>(null)
   const [currentSample, setCurrentSample] = useState<Sample | null>(null)
   const [waveformData, setWaveformData] = useState<number[]>([])
-  const [isPlaying, setIsPlaying] = useState(false)
   const [viewMode, setViewMode] = useState<ViewMode>("main")
   const [selectedPad, setSelectedPad] = useState<number | null>(null)
   const [selectedSampleId, setSelectedSampleId] = useState<string | null>(null)
+  const { isPlaying } = useSequencerTransport()
 
   // Initialize managers
   useEffect(() => {
@@ -59,15 +68,33 @@ export default function MPCLiveInterface() {
     const drumKitService = DrumKitService.getInstance()
     const instrumentService = InstrumentService.getInstance()
 
-    // Set up sequencer state listener
-    const checkSequencerState = () => {
-      setIsPlaying(sequencer.isSequencerPlaying())
-    }
+    // Restore the last session before autosaving over it, leaving autosave off if a broken session is still in place
+    const projectService = ProjectService.getInstance()
+    projectService
+      .restoreAutosave()
+      .then(() => projectService.startAutosave())
+      .catch((error) => console.error("Failed to restore autosaved project:", error))
+
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo, except while typing
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      if (e.target instanceof HTMLElement && e.target.closest("input, textarea, select, [contenteditable]")) return
 
-    const intervalId = setInterval(checkSequencerState, 100)
+      const key = e.key.toLowerCase()
+      const history = HistoryService.getInstance()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        history.undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        history.redo()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
 
     return () => {
-      clearInterval(intervalId)
+      projectService.stopAutosave()
+      window.removeEventListener("keydown", handleKeyDown)
     }
   }, [])
 
@@ -75,15 +102,18 @@ export default function MPCLiveInterface() {
     setAudioFile(file)
 
     const sampleManager = SampleManager.getInstance()
-    const sample = await sampleManager.loadSample(file)
+    const sample = await HistoryService.getInstance().executeAsync(`Load ${file.name}`, async () => {
+      const loaded = await sampleManager.loadSample(file)
+
+      // If a pad is selected, assign this sample to it
+      if (selectedPad !== null) {
+        sampleManager.assignSampleToPad(selectedPad, loaded.id)
+      }
+      return loaded
+    })
 
     setCurrentSample(sample)
     setWaveformData(sample.waveform)
-
-    // If a pad is selected, assign this sample to it
-    if (selectedPad !== null) {
-      sampleManager.assignSampleToPad(selectedPad, sample.id)
-    }
   }
 
   const handleTogglePlayback = () => {
@@ -94,8 +124,6 @@ export default function MPCLiveInterface() {
     } else {
       sequencer.play()
     }
-
-    setIsPlaying(!isPlaying)
   }
 
   const handlePadSelect = (padId: number) => {
@@ -162,11 +190,19 @@ export default function MPCLiveInterface() {
       case "STOP":
         const sequencer = Sequencer.getInstance()
         sequencer.stop()
-        setIsPlaying(false)
         break
       case "JAVA_CONVERTER":
         setViewMode("java-converter")
         break
+      case "EXPANSION":
+        setViewMode("expansion")
+        break
+      case "PROJECT":
+        setViewMode("project")
+        break
+      case "HISTORY":
+        setViewMode("history")
+        break
       default:
         console.log("Button action:", action)
     }
@@ -221,6 +257,12 @@ export default function MPCLiveInterface() {
         return <XPMImportView />
       case "java-converter":
         return <JavaConverterView />
+      case "expansion":
+        return <ExpansionView />
+      case "project":
+        return <ProjectView />
+      case "history":
+        return <HistoryView />
       default:
         return (
           <DisplayScreen
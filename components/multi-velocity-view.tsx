@@ -1,24 +1,26 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import SampleManager, { type Sample } from "@/lib/sample-manager"
-import { VelocityLayerManager } from "@/lib/services/velocity-layer-manager"
-import { XPMUtils } from "@/lib/services/xpm-utils"
+import { useState } from "react"
+import SampleManager from "@/lib/sample-manager"
+import InstrumentService, { layerSamples, type RoundRobinMode } from "@/lib/services/instrument-service"
+import HistoryService from "@/lib/services/history-service"
+import { midiToNoteName } from "@/lib/services/pitch-detection"
+import { sanitizeFilename } from "@/lib/services/mpc-filename"
+import { useInstruments, useSamples } from "@/hooks/use-services"
 
 export default function MultiVelocityView() {
-  const [samples, setSamples] = useState<Sample[]>([])
+  const samples = useSamples()
+  const instrument = useInstruments().currentInstrument
   const [selectedSamples, setSelectedSamples] = useState<string[]>([])
   const [presetName, setPresetName] = useState<string>("Multi-Velocity Instrument")
   const [isGenerating, setIsGenerating] = useState<boolean>(false)
   const [message, setMessage] = useState<string | null>(null)
-  const [velocityLayers, setVelocityLayers] = useState<Map<number, Sample[]>>(new Map())
+  const [auditionVelocity, setAuditionVelocity] = useState<number>(100)
+  const [lastPlayed, setLastPlayed] = useState<string | null>(null)
   const [detectVelocity, setDetectVelocity] = useState<boolean>(true)
   const [optimizeRanges, setOptimizeRanges] = useState<boolean>(true)
 
-  useEffect(() => {
-    const sampleManager = SampleManager.getInstance()
-    setSamples(sampleManager.getAllSamples())
-  }, [])
+  const sampleName = (sampleId: string) => SampleManager.getInstance().getSample(sampleId)?.name || sampleId
 
   const handleSampleSelect = (sampleId: string) => {
     setSelectedSamples((prev) => {
@@ -38,8 +40,8 @@ export default function MultiVelocityView() {
     }
   }
 
-  const handleAnalyzeVelocityLayers = () => {
-    if (selectedSamples.length === 0) {
+  const handleAnalyzeVelocityLayers = async () => {
+    if (selectedSamples.length === 0 || !instrument) {
       setMessage("Please select samples first")
       return
     }
@@ -47,36 +49,64 @@ export default function MultiVelocityView() {
     setMessage("Analyzing velocity layers...")
 
     try {
-      // Get selected samples
-      const sampleManager = SampleManager.getInstance()
-      const selectedSampleObjects = selectedSamples
-        .map((id) => sampleManager.getSample(id))
-        .filter((sample): sample is Sample => !!sample)
+      // Map the selected samples onto the current instrument's keygroups, velocity layers and round robins
+      const instrumentService = InstrumentService.getInstance()
+      const mappedCount = await HistoryService.getInstance().executeAsync("Map velocity layers", () =>
+        instrumentService.autoMapSamples(instrument.id, selectedSamples, { velocityLayers: detectVelocity }),
+      )
 
-      // Create velocity layer manager
-      const velocityManager = new VelocityLayerManager()
+      const mapped = instrumentService.getCurrentInstrument()
+      const layerCount = mapped.keygroups.reduce((count, keygroup) => count + keygroup.velocityLayers.length, 0)
+      const roundRobinCount = mapped.keygroups.reduce(
+        (count, keygroup) =>
+          count + keygroup.velocityLayers.reduce((sum, layer) => sum + (layer.roundRobins?.length || 0), 0),
+        0,
+      )
 
-      // Organize samples into velocity layers
-      const layers = velocityManager.organizeVelocityLayers(selectedSampleObjects)
-
-      setVelocityLayers(layers)
-
-      // Count total layers
-      let totalLayers = 0
-      layers.forEach((samples) => {
-        totalLayers += samples.length
-      })
-
-      setMessage(`Found ${layers.size} notes with ${totalLayers} velocity layers`)
+        setMessage(
+        `Mapped ${mappedCount} samples to ${mapped.keygroups.length} notes with ${layerCount} velocity layers ` +
+          `and ${roundRobinCount} round robins`,
+      )
     } catch (error) {
       console.error("Failed to analyze velocity layers:", error)
       setMessage("Failed to analyze velocity layers")
     }
   }
 
+  const handleModeChange = (keygroupId: string, mode: RoundRobinMode) => {
+    if (!instrument) return
+
+    HistoryService.getInstance().execute("Change round robin mode", () =>
+      InstrumentService.getInstance().setRoundRobinMode(instrument.id, keygroupId, mode),
+    )
+  }
+
+  const handleAddRoundRobin = (keygroupId: string, velocityLayerId: string, sampleId: string) => {
+    if (!instrument || !sampleId) return
+
+    HistoryService.getInstance().execute(`Add round robin ${sampleName(sampleId)}`, () =>
+      InstrumentService.getInstance().addRoundRobin(instrument.id, keygroupId, velocityLayerId, sampleId),
+    )
+  }
+
+  const handleRemoveRoundRobin = (keygroupId: string, velocityLayerId: string, sampleId: string) => {
+    if (!instrument) return
+
+    HistoryService.getInstance().execute(`Remove round robin ${sampleName(sampleId)}`, () =>
+      InstrumentService.getInstance().removeRoundRobin(instrument.id, keygroupId, velocityLayerId, sampleId),
+    )
+  }
+
+  const handleAudition = (note: number) => {
+    if (!instrument) return
+
+    const sampleId = InstrumentService.getInstance().playNote(instrument.id, note, auditionVelocity)
+    setLastPlayed(sampleId ? sampleName(sampleId) : null)
+  }
+
   const handleGenerateXPM = async () => {
-    if (selectedSamples.length === 0) {
-      setMessage("Please select samples first")
+    if (!instrument || instrument.keygroups.length === 0) {
+      setMessage("Please analyze samples first")
       return
     }
 
@@ -84,29 +114,17 @@ export default function MultiVelocityView() {
     setMessage("Generating XPM...")
 
     try {
-      // Get selected samples
-      const sampleManager = SampleManager.getInstance()
-      const selectedSampleObjects = selectedSamples
-        .map((id) => sampleManager.getSample(id))
-        .filter((sample): sample is Sample => !!sample)
-
-      // Create XPM utils
-      const xpmUtils = new XPMUtils(presetName, "instrument")
-
-      // Generate XPM content
-      const xpmContent = await xpmUtils.createXPM(selectedSampleObjects, {
-        autoMapSamples: true,
-        detectVelocityLayers: detectVelocity,
-        optimizeKeyRanges: optimizeRanges,
-        validateSamples: true,
+      const blob = await InstrumentService.getInstance().exportInstrument(instrument.id, {
+        name: presetName,
+        includePreview: false,
+        fixXPM: optimizeRanges,
       })
 
       // Create a download link
-      const blob = new Blob([xpmContent], { type: "text/plain" })
       const url = URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = `${presetName}.xpm`
+      a.download = sanitizeFilename(`${presetName}.xpm`)
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
@@ -164,22 +182,84 @@ export default function MultiVelocityView() {
           </div>
         </div>
 
-        {velocityLayers.size > 0 && (
+        {instrument && instrument.keygroups.some((keygroup) => keygroup.velocityLayers.some((vl) => vl.sampleId)) && (
           <div className="bg-gray-800 p-2 rounded mb-4">
-            <div className="text-white text-xs mb-2">Detected Velocity Layers</div>
-            <div className="max-h-32 overflow-y-auto">
-              {Array.from(velocityLayers.entries()).map(([midiNote, samples]) => (
-                <div key={midiNote} className="mb-2">
-                  <div className="text-white text-xs">
-                    Note: {this.getMidiNoteName(midiNote)} (MIDI {midiNote})
+            <div className="flex justify-between items-center mb-2">
+              <div className="text-white text-xs">Keygroups</div>
+              <label className="flex items-center space-x-1">
+                <span className="text-white text-xs">Velocity: {auditionVelocity}</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={127}
+                  value={auditionVelocity}
+                  onChange={(e) => setAuditionVelocity(Number(e.target.value))}
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-8 gap-1 mb-2">
+              {instrument.keygroups.map((keygroup) => (
+                <button
+                  key={keygroup.id}
+                  className="bg-gray-700 text-white py-2 text-xs hover:bg-gray-600 rounded"
+                  onClick={() => handleAudition(keygroup.rootNote)}
+                >
+                  {midiToNoteName(keygroup.rootNote)}
+                </button>
+              ))}
+            </div>
+            <div className="text-gray-400 text-xs mb-2">Played: {lastPlayed || "-"}</div>
+
+            <div className="max-h-48 overflow-y-auto space-y-2">
+              {instrument.keygroups.map((keygroup) => (
+                <div key={keygroup.id}>
+                  <div className="flex justify-between items-center">
+                    <div className="text-white text-xs">
+                      Note: {midiToNoteName(keygroup.rootNote)} (MIDI {keygroup.rootNote}, keys{" "}
+                      {`${keygroup.lowNote}-${keygroup.highNote}`})
+                    </div>
+                    <select
+                      value={keygroup.roundRobinMode || "cycle"}
+                      onChange={(e) => handleModeChange(keygroup.id, e.target.value as RoundRobinMode)}
+                      className="bg-gray-900 text-white text-xs p-1 rounded"
+                    >
+                      <option value="cycle">Cycle</option>
+                      <option value="random">Random</option>
+                    </select>
                   </div>
-                  <div className="pl-4">
-                    {samples.map((sample, index) => (
-                      <div key={sample.id} className="text-gray-400 text-xs">
-                        Layer {index + 1}: {sample.name}
+                  {keygroup.velocityLayers.map((layer) => (
+                    <div key={layer.id} className="pl-4">
+                      <div className="text-gray-400 text-xs">
+                        Velocity {layer.lowVelocity}-{layer.highVelocity}
                       </div>
-                    ))}
-                  </div>
+                      {layerSamples(layer).map(({ sampleId }, index) => (
+                        <div key={sampleId} className="pl-4 text-gray-400 text-xs flex justify-between">
+                          <span className="truncate">
+                            RR {index + 1}: {sampleName(sampleId)}
+                          </span>
+                          <button
+                            className="text-red-400 hover:text-red-300 px-1"
+                            onClick={() => handleRemoveRoundRobin(keygroup.id, layer.id, sampleId)}
+                          >
+                            ×
+                          </button>
+                        </div>
+                      ))}
+                      <select
+                        value=""
+                        onChange={(e) => handleAddRoundRobin(keygroup.id, layer.id, e.target.value)}
+                        className="ml-4 bg-gray-900 text-white text-xs p-1 rounded"
+                      >
+                        <option value="">Add round robin...</option>
+                        {samples.map((sample) => (
+                          <option key={sample.id} value={sample.id}>
+                            {sample.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
                 </div>
               ))}
             </div>
@@ -239,7 +319,7 @@ export default function MultiVelocityView() {
           <button
             className="bg-green-700 text-white py-1 px-3 text-xs hover:bg-green-600 rounded"
             onClick={handleGenerateXPM}
-            disabled={isGenerating || selectedSamples.length === 0}
+            disabled={isGenerating || !instrument}
           >
             {isGenerating ? "Generating..." : "Generate XPM"}
           </button>
@@ -247,12 +327,4 @@ export default function MultiVelocityView() {
       </div>
     </div>
   )
-
-  // Helper method to convert MIDI note to note name
-  function getMidiNoteName(midiNote: number): string {
-    const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
-    const octave = Math.floor(midiNote / 12) - 1
-    const noteName = noteNames[midiNote % 12]
-    return `${noteName}${octave}`
-  }
 }
@@ -1,7 +1,8 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import SampleManager, { type PadAssignment } from "@/lib/sample-manager"
+import { useState } from "react"
+import SampleManager from "@/lib/sample-manager"
+import { usePadAssignments } from "@/hooks/use-services"
 
 interface PadGridProps {
   onPadSelect?: (padId: number) => void
@@ -10,20 +11,7 @@ interface PadGridProps {
 
 export default function PadGrid({ onPadSelect, selectedPad }: PadGridProps) {
   const [activePad, setActivePad] = useState<number | null>(null)
-  const [padAssignments, setPadAssignments] = useState<PadAssignment[]>([])
-
-  useEffect(() => {
-    // Get initial pad assignments
-    const sampleManager = SampleManager.getInstance()
-    setPadAssignments(sampleManager.getPadAssignments())
-
-    // Set up interval to refresh pad assignments
-    const intervalId = setInterval(() => {
-      setPadAssignments(sampleManager.getPadAssignments())
-    }, 500)
-
-    return () => clearInterval(intervalId)
-  }, [])
+  const padAssignments = usePadAssignments()
 
   const handlePadClick = (index: number) => {
     setActivePad(index)
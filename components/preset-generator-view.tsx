@@ -1,12 +1,13 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { PresetGenerator, type PresetOptions } from "@/lib/services/preset-generator"
 import { InstrumentScanner, type ScannedInstrument } from "@/lib/services/instrument-scanner"
-import SampleManager, { type Sample } from "@/lib/sample-manager"
+import { sanitizeFilename } from "@/lib/services/mpc-filename"
+import { useSamples } from "@/hooks/use-services"
 
 export default function PresetGeneratorView() {
-  const [samples, setSamples] = useState<Sample[]>([])
+  const samples = useSamples()
   const [selectedSamples, setSelectedSamples] = useState<string[]>([])
   const [presetName, setPresetName] = useState<string>("My Preset")
   const [presetType, setPresetType] = useState<"drumkit" | "instrument">("drumkit")
@@ -16,11 +17,6 @@ export default function PresetGeneratorView() {
   const [scannedInstruments, setScannedInstruments] = useState<ScannedInstrument[]>([])
   const [isScanning, setIsScanning] = useState<boolean>(false)
 
-  useEffect(() => {
-    const sampleManager = SampleManager.getInstance()
-    setSamples(sampleManager.getAllSamples())
-  }, [])
-
   const handleSampleSelect = (sampleId: string) => {
     setSelectedSamples((prev) => {
       if (prev.includes(sampleId)) {
@@ -62,7 +58,7 @@ export default function PresetGeneratorView() {
       const url = URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = `${presetName}.xpm`
+      a.download = sanitizeFilename(`${presetName}.xpm`)
       document.body.appendChild(a)
       a.click()
       document.body.removeChild(a)
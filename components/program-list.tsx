@@ -0,0 +1,107 @@
+"use client"
+
+import { useState } from "react"
+
+interface ProgramListProps {
+  title: string
+  programs: { id: string; name: string }[]
+  currentId: string | null
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+export default function ProgramList({
+  title,
+  programs,
+  currentId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ProgramListProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameText, setRenameText] = useState<string>("")
+
+  const startRename = (id: string, name: string) => {
+    setRenamingId(id)
+    setRenameText(name)
+  }
+
+  const finishRename = () => {
+    if (renamingId && renameText.trim()) {
+      onRename(renamingId, renameText)
+    }
+    setRenamingId(null)
+  }
+
+  return (
+    <div className="bg-gray-800 p-2 rounded mb-2">
+      <div className="flex justify-between items-center mb-1">
+        <div className="text-white text-xs">
+          {title} ({programs.length})
+        </div>
+        <button className="bg-gray-700 text-white py-0.5 px-2 text-xs hover:bg-gray-600 rounded" onClick={onCreate}>
+          New
+        </button>
+      </div>
+
+      <div className="max-h-24 overflow-y-auto">
+        {programs.map((program) => (
+          <div
+            key={program.id}
+            className={`p-1 rounded flex items-center space-x-2 cursor-pointer ${
+              program.id === currentId ? "bg-gray-700" : "hover:bg-gray-700"
+            }`}
+            onClick={() => onSelect(program.id)}
+          >
+            {renamingId === program.id ? (
+              <input
+                type="text"
+                value={renameText}
+                autoFocus
+                onChange={(e) => setRenameText(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishRename()
+                  if (e.key === "Escape") setRenamingId(null)
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="flex-1 bg-gray-900 text-white text-xs p-0.5 rounded"
+              />
+            ) : (
+              <div
+                className="flex-1 text-white text-xs truncate"
+                onDoubleClick={() => startRename(program.id, program.name)}
+                title="Double-click to rename"
+              >
+                {program.name}
+              </div>
+            )}
+            <button
+              className="text-gray-400 hover:text-white text-xs"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDuplicate(program.id)
+              }}
+            >
+              Copy
+            </button>
+            <button
+              className="text-red-400 hover:text-red-300 text-xs"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDelete(program.id)
+              }}
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
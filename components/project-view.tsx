@@ -0,0 +1,133 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef } from "react"
+import ProjectService from "@/lib/services/project-service"
+import { PROJECT_EXTENSION } from "@/lib/services/project-file"
+
+export default function ProjectView() {
+  const [projectName, setProjectName] = useState<string>(() => ProjectService.getInstance().getProjectName())
+  const [lastAutosave, setLastAutosave] = useState<Date | null>(() => ProjectService.getInstance().getLastAutosave())
+  const [restoreError] = useState<string | null>(() => ProjectService.getInstance().getRestoreError())
+  const [isBusy, setIsBusy] = useState<boolean>(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const runAction = async (status: string, done: string, action: (service: ProjectService) => Promise<unknown>) => {
+    setIsBusy(true)
+    setMessage(status)
+
+    try {
+      const projectService = ProjectService.getInstance()
+      await action(projectService)
+      setProjectName(projectService.getProjectName())
+      setLastAutosave(projectService.getLastAutosave())
+      setMessage(done)
+    } catch (error) {
+      // Cancelling the save dialog is not a failure
+      if (error instanceof DOMException && error.name === "AbortError") {
+        setMessage(null)
+      } else {
+        console.error(`${status} failed:`, error)
+        setMessage(error instanceof Error ? error.message : `${status} failed`)
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleNameChange = (name: string) => {
+    setProjectName(name)
+    ProjectService.getInstance().setProjectName(name)
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+
+    runAction("Opening project...", `Opened ${file.name}`, (service) => service.openProject(file))
+  }
+
+  return (
+    <div className="w-full h-full bg-black rounded-md p-2 flex flex-col">
+      <div className="text-white text-center py-2 border-b border-gray-700 mb-2">PROJECT</div>
+
+      <div className="flex-1 overflow-y-auto space-y-4">
+        <div className="bg-gray-800 p-2 rounded space-y-2">
+          <div className="flex items-center space-x-2">
+            <span className="text-white text-xs w-16">Name:</span>
+            <input
+              type="text"
+              value={projectName}
+              onChange={(e) => handleNameChange(e.target.value)}
+              className="flex-1 bg-gray-900 text-white text-xs p-1 rounded"
+              disabled={isBusy}
+            />
+          </div>
+          <div className="text-gray-400 text-xs">
+            Projects hold every sample with its audio and edits, pad assignments, drum kits, instruments, patterns
+            and MIDI pad mappings.
+          </div>
+        </div>
+
+        <div className="bg-gray-800 p-2 rounded space-y-2">
+          <div className="text-white text-xs">Autosave</div>
+          <div className="text-gray-400 text-xs">
+            The session is saved in the browser as you work and restored when the page is reopened.
+          </div>
+          {restoreError && <div className="text-red-400 text-xs">{restoreError}</div>}
+          <div className="flex justify-between items-center">
+            <span className="text-gray-400 text-xs">
+              Last saved: {lastAutosave ? lastAutosave.toLocaleTimeString() : "never"}
+            </span>
+            <button
+              className="bg-gray-700 text-white py-0.5 px-2 text-xs hover:bg-gray-600 rounded"
+              onClick={() => runAction("Autosaving...", "Autosaved", (service) => service.autosave())}
+              disabled={isBusy}
+            >
+              Save Now
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${PROJECT_EXTENSION},application/json`}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      <div className="mt-2 flex justify-between items-center">
+        <div className="text-xs text-gray-400">{message}</div>
+        <div className="flex space-x-2">
+          <button
+            className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+          >
+            Open
+          </button>
+          <button
+            className="bg-blue-700 text-white py-1 px-3 text-xs hover:bg-blue-600 rounded"
+            onClick={() => runAction("Saving project...", "Project saved", (service) => service.saveProject())}
+            disabled={isBusy}
+          >
+            Save
+          </button>
+          <button
+            className="bg-green-700 text-white py-1 px-3 text-xs hover:bg-green-600 rounded"
+            onClick={() => runAction("Saving project...", "Project saved", (service) => service.saveProjectAs())}
+            disabled={isBusy}
+          >
+            Save As
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,26 +1,24 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import SampleManager, { type Sample } from "@/lib/sample-manager"
 import { SampleAnalyzer, type SampleAnalysis } from "@/lib/services/sample-analyzer"
+import type { PitchMethod } from "@/lib/services/pitch-detection"
+import { useSamples } from "@/hooks/use-services"
 
 export default function SampleAnalysisView() {
-  const [samples, setSamples] = useState<Sample[]>([])
+  const samples = useSamples()
   const [selectedSamples, setSelectedSamples] = useState<string[]>([])
   const [analysisResults, setAnalysisResults] = useState<SampleAnalysis[]>([])
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false)
   const [message, setMessage] = useState<string | null>(null)
+  const [pitchMethod, setPitchMethod] = useState<PitchMethod>("yin")
   const [validationResults, setValidationResults] = useState<{
     valid: Sample[]
     invalid: Sample[]
     issues: Map<string, string[]>
   } | null>(null)
 
-  useEffect(() => {
-    const sampleManager = SampleManager.getInstance()
-    setSamples(sampleManager.getAllSamples())
-  }, [])
-
   const handleSampleSelect = (sampleId: string) => {
     setSelectedSamples((prev) => {
       if (prev.includes(sampleId)) {
@@ -59,7 +57,7 @@ export default function SampleAnalysisView() {
       const analyzer = new SampleAnalyzer()
 
       // Analyze samples
-      const results = analyzer.analyzeSamples(selectedSampleObjects)
+      const results = analyzer.analyzeSamples(selectedSampleObjects, { method: pitchMethod })
       setAnalysisResults(results)
 
       setMessage(
@@ -155,6 +153,18 @@ export default function SampleAnalysisView() {
               Find C3 Sample
             </button>
           </div>
+          <div className="flex items-center mt-2">
+            <label className="text-gray-400 text-xs mr-2">Pitch Detection</label>
+            <select
+              className="bg-gray-700 text-white text-xs p-1 rounded"
+              value={pitchMethod}
+              onChange={(e) => setPitchMethod(e.target.value as PitchMethod)}
+              disabled={isAnalyzing}
+            >
+              <option value="yin">YIN</option>
+              <option value="mpm">McLeod (MPM)</option>
+            </select>
+          </div>
         </div>
 
         {analysisResults.length > 0 && (
@@ -171,6 +181,15 @@ export default function SampleAnalysisView() {
                         <div>Sample Rate: {result.sampleRate}Hz</div>
                         <div>Bit Depth: {result.sampleWidth}-bit</div>
                         <div>Duration: {result.duration.toFixed(2)}s</div>
+                        {result.estimatedPitch ? (
+                          <div>
+                            Pitch: {result.estimatedPitch.note} {result.estimatedPitch.cents >= 0 ? "+" : ""}
+                            {result.estimatedPitch.cents}c ({result.estimatedPitch.frequency.toFixed(1)}Hz,{" "}
+                            {Math.round(result.estimatedPitch.confidence * 100)}% confidence)
+                          </div>
+                        ) : (
+                          <div>Pitch: none detected</div>
+                        )}
                       </>
                     ) : (
                       <div className="text-red-400">Error: {result.error}</div>
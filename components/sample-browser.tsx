@@ -1,7 +1,9 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import SampleManager, { type Sample } from "@/lib/sample-manager"
+import HistoryService from "@/lib/services/history-service"
+import { useSamples } from "@/hooks/use-services"
 
 interface SampleBrowserProps {
   onSampleSelect: (sample: Sample) => void
@@ -9,25 +11,12 @@ interface SampleBrowserProps {
 }
 
 export default function SampleBrowser({ onSampleSelect, onEditSample }: SampleBrowserProps) {
-  const [samples, setSamples] = useState<Sample[]>([])
+  const samples = useSamples()
   const [selectedSampleId, setSelectedSampleId] = useState<string | null>(null)
   const [isPlaying, setIsPlaying] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState<string>("")
   const [sortBy, setSortBy] = useState<"name" | "duration">("name")
 
-  useEffect(() => {
-    // Get all loaded samples
-    const sampleManager = SampleManager.getInstance()
-    setSamples(sampleManager.getAllSamples())
-
-    // Set up interval to refresh samples
-    const intervalId = setInterval(() => {
-      setSamples(sampleManager.getAllSamples())
-    }, 500)
-
-    return () => clearInterval(intervalId)
-  }, [])
-
   const handleSampleClick = (sample: Sample) => {
     setSelectedSampleId(sample.id)
     onSampleSelect(sample)
@@ -57,10 +46,8 @@ export default function SampleBrowser({ onSampleSelect, onEditSample }: SampleBr
 
   const handleDeleteSample = (sampleId: string) => {
     const sampleManager = SampleManager.getInstance()
-    sampleManager.deleteSample(sampleId)
-
-    // Update samples list
-    setSamples(sampleManager.getAllSamples())
+    const name = sampleManager.getSample(sampleId)?.name || "sample"
+    HistoryService.getInstance().execute(`Delete ${name}`, () => sampleManager.deleteSample(sampleId))
 
     // Clear selection if the deleted sample was selected
     if (selectedSampleId === sampleId) {
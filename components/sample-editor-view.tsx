@@ -1,8 +1,16 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { SampleEditor } from "@/lib/services/sample-editor"
-import SampleManager, { type Sample } from "@/lib/sample-manager"
+import { describeSampleEdit, type SampleEdit } from "@/lib/services/sample-edits"
+import SampleManager, { type Sample, type SampleCue, type SampleLoop } from "@/lib/sample-manager"
+import DrumKitService from "@/lib/services/drumkit-service"
+import HistoryService from "@/lib/services/history-service"
+import type { SliceMode } from "@/lib/services/sample-chopper"
+import type { LoopCandidate } from "@/lib/services/loop-engine"
+import { sanitizeFilename } from "@/lib/services/mpc-filename"
+import type { WAVEncodeOptions } from "@/lib/services/wav-encoder"
+import WAVFormatOptions from "./wav-format-options"
 
 interface SampleEditorViewProps {
   sampleId: string | null
@@ -19,6 +27,22 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
   const [fadeInMs, setFadeInMs] = useState<number>(10)
   const [fadeOutMs, setFadeOutMs] = useState<number>(10)
   const [silenceThreshold, setSilenceThreshold] = useState<number>(0.01)
+  const [audioFormat, setAudioFormat] = useState<WAVEncodeOptions>({})
+  const [edits, setEdits] = useState<SampleEdit[]>([])
+  const [loop, setLoop] = useState<SampleLoop | null>(null)
+  const [loopCandidates, setLoopCandidates] = useState<LoopCandidate[]>([])
+  const [renderedLength, setRenderedLength] = useState<number>(0)
+  const [crossfadeMs, setCrossfadeMs] = useState<number>(50)
+  const [isPreviewing, setIsPreviewing] = useState<boolean>(false)
+
+  const [cues, setCues] = useState<SampleCue[]>([])
+  const [sliceMethod, setSliceMethod] = useState<string>("spectralFlux")
+  const [sliceSensitivity, setSliceSensitivity] = useState<number>(0.5)
+  const [sliceCount, setSliceCount] = useState<number>(16)
+  const [sliceBpm, setSliceBpm] = useState<number>(120)
+  const [sliceDivisions, setSliceDivisions] = useState<number>(2)
+
+  const stopPreviewRef = useRef<(() => void) | null>(null)
 
   useEffect(() => {
     if (!sampleId) return
@@ -33,6 +57,11 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
       try {
         const sampleEditor = new SampleEditor(sampleId)
         setEditor(sampleEditor)
+        setEdits(sampleEditor.getEdits())
+        setLoop(sampleEditor.getLoop())
+        setRenderedLength(sampleEditor.getLength())
+        setCues(sampleEditor.getCues())
+        if (loadedSample.tempo) setSliceBpm(Math.round(loadedSample.tempo))
       } catch (error) {
         console.error("Failed to create sample editor:", error)
         setMessage("Failed to load sample for editing")
@@ -40,6 +69,26 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
     }
   }, [sampleId])
 
+  // Stop the loop preview when leaving the editor
+  useEffect(() => () => stopPreviewRef.current?.(), [])
+
+  // Edits render without touching the stored sample until Save Changes
+  const refreshPreview = (sampleEditor: SampleEditor) => {
+    stopLoopPreview()
+    setWaveformData(sampleEditor.getWaveform())
+    setEdits(sampleEditor.getEdits())
+    setLoop(sampleEditor.getLoop())
+    setRenderedLength(sampleEditor.getLength())
+    setCues(sampleEditor.getCues())
+  }
+
+  const handleEditListChange = (change: (sampleEditor: SampleEditor) => void) => {
+    if (!editor) return
+
+    change(editor)
+    refreshPreview(editor)
+  }
+
   const handleNormalize = async () => {
     if (!editor) return
 
@@ -50,10 +99,7 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
       await editor.normalize()
       setMessage("Sample normalized")
 
-      // Update waveform preview
-      const updatedSample = await editor.save()
-      setSample(updatedSample)
-      setWaveformData(updatedSample.waveform)
+      refreshPreview(editor)
     } catch (error) {
       console.error("Failed to normalize sample:", error)
       setMessage("Failed to normalize sample")
@@ -72,10 +118,7 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
       await editor.trimSilence(silenceThreshold)
       setMessage("Silence trimmed")
 
-      // Update waveform preview
-      const updatedSample = await editor.save()
-      setSample(updatedSample)
-      setWaveformData(updatedSample.waveform)
+      refreshPreview(editor)
     } catch (error) {
       console.error("Failed to trim silence:", error)
       setMessage("Failed to trim silence")
@@ -94,10 +137,7 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
       await editor.fade(fadeInMs, fadeOutMs)
       setMessage("Fade applied")
 
-      // Update waveform preview
-      const updatedSample = await editor.save()
-      setSample(updatedSample)
-      setWaveformData(updatedSample.waveform)
+      refreshPreview(editor)
     } catch (error) {
       console.error("Failed to apply fade:", error)
       setMessage("Failed to apply fade")
@@ -113,10 +153,12 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
     setMessage("Detecting loop points...")
 
     try {
-      const loopPoints = await editor.detectLoopPoints()
+      const candidates = editor.findLoopCandidates()
+      setLoopCandidates(candidates)
 
-      if (loopPoints) {
-        setMessage(`Loop points detected: ${loopPoints.start} - ${loopPoints.end}`)
+      if (candidates.length > 0) {
+        handleSelectLoop(candidates[0])
+        setMessage(`Found ${candidates.length} loop candidates`)
       } else {
         setMessage("Could not detect suitable loop points")
       }
@@ -128,11 +170,110 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
     }
   }
 
+  const handleSelectLoop = (candidate: LoopCandidate) => {
+    if (!editor) return
+
+    stopLoopPreview()
+    const selected: SampleLoop = { start: candidate.start, end: candidate.end, type: "forward" }
+    editor.setLoop(selected)
+    setLoop(selected)
+  }
+
+  const stopLoopPreview = () => {
+    stopPreviewRef.current?.()
+    stopPreviewRef.current = null
+    setIsPreviewing(false)
+  }
+
+  const handlePreviewLoop = () => {
+    if (!editor) return
+
+    if (isPreviewing) {
+      stopLoopPreview()
+    } else {
+      stopPreviewRef.current = editor.previewLoop()
+      setIsPreviewing(true)
+    }
+  }
+
+  const handleCrossfadeLoop = async () => {
+    if (!editor) return
+
+    try {
+      await editor.crossfadeLoop(crossfadeMs)
+      refreshPreview(editor)
+      setMessage("Loop crossfade applied")
+    } catch (error) {
+      console.error("Failed to crossfade loop:", error)
+      setMessage(error instanceof Error ? error.message : "Failed to crossfade loop")
+    }
+  }
+
+  const handleFindSlices = () => {
+    if (!editor) return
+
+    const mode: SliceMode =
+      sliceMethod === "equal"
+        ? { type: "equal", count: sliceCount }
+        : sliceMethod === "tempo"
+          ? { type: "tempo", bpm: sliceBpm, divisionsPerBeat: sliceDivisions }
+          : {
+              type: "onsets",
+              options: { method: sliceMethod === "energy" ? "energy" : "spectralFlux", sensitivity: sliceSensitivity },
+            }
+
+    const markers = editor.findSliceMarkers(mode)
+    updateCues(markers.map((position) => ({ position })))
+    setMessage(`${markers.length + 1} slices`)
+  }
+
+  // Slice markers are the sample's cue markers
+  const updateCues = (updated: SampleCue[]) => {
+    if (!editor) return
+
+    editor.setCues(updated.filter((cue) => cue.position > 0 && cue.position < renderedLength))
+    setCues(editor.getCues())
+  }
+
+  const handleAddMarker = () => {
+    // Split the longest slice in half
+    const bounds = [0, ...cues.map((cue) => cue.position), renderedLength]
+    let longest = 0
+    for (let i = 1; i < bounds.length - 1; i++) {
+      if (bounds[i + 1] - bounds[i] > bounds[longest + 1] - bounds[longest]) longest = i
+    }
+
+    updateCues([...cues, { position: Math.round((bounds[longest] + bounds[longest + 1]) / 2) }])
+  }
+
+  const handleChop = async () => {
+    if (!editor) return
+
+    try {
+      const history = HistoryService.getInstance()
+      const { slices, assigned } = await history.executeAsync(`Chop ${sample?.name || "sample"}`, async () => {
+        const chopped = editor.chop()
+        const drumKitService = DrumKitService.getInstance()
+        const assignedCount = await drumKitService.autoAssignSamples(
+          drumKitService.getCurrentKit().id,
+          chopped.map((slice) => slice.id),
+        )
+        return { slices: chopped, assigned: assignedCount }
+      })
+
+      setMessage(`Created ${slices.length} slices, ${assigned} assigned to pads`)
+    } catch (error) {
+      console.error("Failed to chop sample:", error)
+      setMessage("Failed to chop sample")
+    }
+  }
+
   const handleSave = async () => {
     if (!editor || !sample) return
 
     try {
-      const updatedSample = await editor.save()
+      const updatedSample = await HistoryService.getInstance().executeAsync(`Edit ${sample.name}`, () => editor.save())
+      setSample(updatedSample)
       onSave(updatedSample)
       setMessage("Sample saved successfully")
     } catch (error) {
@@ -141,6 +282,29 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
     }
   }
 
+  const handleExportWAV = () => {
+    if (!editor || !sample) return
+
+    try {
+      const blob = editor.exportWAV(audioFormat)
+
+      // Create a download link
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = sanitizeFilename(sample.name, ".wav")
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+
+      setMessage("Sample exported")
+    } catch (error) {
+      console.error("Failed to export sample:", error)
+      setMessage("Failed to export sample")
+    }
+  }
+
   if (!sample) {
     return (
       <div className="w-full h-full bg-black rounded-md p-2 flex flex-col items-center justify-center">
@@ -171,9 +335,19 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
           <div className="h-24 w-full flex items-center justify-center">
             {waveformData.length > 0 ? (
               <div className="w-full flex items-center">
-                {waveformData.map((value, index) => (
-                  <div key={index} className="w-1 mx-[1px] bg-blue-400" style={{ height: `${value * 100}%` }}></div>
-                ))}
+                {waveformData.map((value, index) => {
+                  const position = (index / waveformData.length) * renderedLength
+                  const next = ((index + 1) / waveformData.length) * renderedLength
+                  const inLoop = !!loop && position >= loop.start && position <= loop.end
+                  const isMarker = cues.some((cue) => cue.position >= position && cue.position < next)
+                  return (
+                    <div
+                      key={index}
+                      className={`w-1 mx-[1px] ${isMarker ? "bg-yellow-400" : inLoop ? "bg-green-400" : "bg-blue-400"}`}
+                      style={{ height: `${value * 100}%` }}
+                    ></div>
+                  )
+                })}
               </div>
             ) : (
               <div className="text-gray-400">No waveform data available</div>
@@ -186,6 +360,68 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
 
         {/* Editing controls */}
         <div className="space-y-4">
+          <div className="bg-gray-800 p-2 rounded">
+            <div className="flex justify-between items-center mb-2">
+              <div className="text-white text-xs">Edit List</div>
+              <div className="flex space-x-1">
+                <button
+                  className="bg-gray-700 text-white py-0.5 px-2 text-xs hover:bg-gray-600 rounded"
+                  onClick={() => handleEditListChange((e) => e.undo())}
+                  disabled={isProcessing || !editor?.canUndo()}
+                >
+                  Undo
+                </button>
+                <button
+                  className="bg-gray-700 text-white py-0.5 px-2 text-xs hover:bg-gray-600 rounded"
+                  onClick={() => handleEditListChange((e) => e.redo())}
+                  disabled={isProcessing || !editor?.canRedo()}
+                >
+                  Redo
+                </button>
+              </div>
+            </div>
+            {edits.length === 0 ? (
+              <div className="text-gray-400 text-xs">No edits applied</div>
+            ) : (
+              <div className="space-y-1">
+                {edits.map((edit, index) => (
+                  <div key={edit.id} className="flex items-center space-x-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={edit.enabled}
+                      onChange={() => handleEditListChange((e) => e.toggleEdit(edit.id))}
+                      disabled={isProcessing}
+                    />
+                    <span className={`flex-1 ${edit.enabled ? "text-white" : "text-gray-500 line-through"}`}>
+                      {describeSampleEdit(edit)}
+                    </span>
+                    <button
+                      className="text-gray-400 hover:text-white disabled:opacity-30"
+                      onClick={() => handleEditListChange((e) => e.moveEdit(edit.id, index - 1))}
+                      disabled={isProcessing || index === 0}
+                    >
+                      ▲
+                    </button>
+                    <button
+                      className="text-gray-400 hover:text-white disabled:opacity-30"
+                      onClick={() => handleEditListChange((e) => e.moveEdit(edit.id, index + 1))}
+                      disabled={isProcessing || index === edits.length - 1}
+                    >
+                      ▼
+                    </button>
+                    <button
+                      className="text-red-400 hover:text-red-300"
+                      onClick={() => handleEditListChange((e) => e.removeEdit(edit.id))}
+                      disabled={isProcessing}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           <div className="bg-gray-800 p-2 rounded">
             <div className="text-white text-xs mb-2">Basic Processing</div>
             <div className="flex space-x-2">
@@ -272,19 +508,199 @@ export default function SampleEditorView({ sampleId, onClose, onSave }: SampleEd
             >
               Detect Loop Points
             </button>
+            {loopCandidates.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {loopCandidates.map((candidate) => (
+                  <label key={`${candidate.start}-${candidate.end}`} className="flex items-center space-x-2 text-xs">
+                    <input
+                      type="radio"
+                      checked={loop?.start === candidate.start && loop?.end === candidate.end}
+                      onChange={() => handleSelectLoop(candidate)}
+                      disabled={isProcessing}
+                    />
+                    <span className="text-white flex-1">
+                      {candidate.start} - {candidate.end}
+                    </span>
+                    <span className="text-gray-400">{Math.round(candidate.score * 100)}%</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {loop && (
+              <div className="mt-2 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <span className="text-white text-xs w-16">Crossfade (ms):</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="500"
+                    value={crossfadeMs}
+                    onChange={(e) => setCrossfadeMs(Number(e.target.value))}
+                    className="flex-1"
+                    disabled={isProcessing}
+                  />
+                  <span className="text-white text-xs w-8">{crossfadeMs}</span>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded flex-1"
+                    onClick={handlePreviewLoop}
+                    disabled={isProcessing}
+                  >
+                    {isPreviewing ? "Stop Preview" : "Preview Loop"}
+                  </button>
+                  <button
+                    className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded flex-1"
+                    onClick={handleCrossfadeLoop}
+                    disabled={isProcessing}
+                  >
+                    Apply Crossfade
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-800 p-2 rounded">
+            <div className="text-white text-xs mb-2">Slices</div>
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <select
+                  value={sliceMethod}
+                  onChange={(e) => setSliceMethod(e.target.value)}
+                  className="bg-gray-700 text-white text-xs p-1 rounded"
+                  disabled={isProcessing}
+                >
+                  <option value="spectralFlux">Transients (Spectral)</option>
+                  <option value="energy">Transients (Energy)</option>
+                  <option value="equal">Equal Divisions</option>
+                  <option value="tempo">BPM Grid</option>
+                </select>
+                {(sliceMethod === "spectralFlux" || sliceMethod === "energy") && (
+                  <>
+                    <span className="text-white text-xs">Sensitivity:</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={sliceSensitivity}
+                      onChange={(e) => setSliceSensitivity(Number(e.target.value))}
+                      className="flex-1"
+                      disabled={isProcessing}
+                    />
+                  </>
+                )}
+                {sliceMethod === "equal" && (
+                  <input
+                    type="number"
+                    min="2"
+                    max="128"
+                    value={sliceCount}
+                    onChange={(e) => setSliceCount(Number(e.target.value))}
+                    className="w-16 bg-gray-900 text-white text-xs p-1 rounded"
+                    disabled={isProcessing}
+                  />
+                )}
+                {sliceMethod === "tempo" && (
+                  <>
+                    <span className="text-white text-xs">BPM:</span>
+                    <input
+                      type="number"
+                      min="20"
+                      max="300"
+                      value={sliceBpm}
+                      onChange={(e) => setSliceBpm(Number(e.target.value))}
+                      className="w-16 bg-gray-900 text-white text-xs p-1 rounded"
+                      disabled={isProcessing}
+                    />
+                    <span className="text-white text-xs">Per beat:</span>
+                    <input
+                      type="number"
+                      min="1"
+                      max="8"
+                      value={sliceDivisions}
+                      onChange={(e) => setSliceDivisions(Number(e.target.value))}
+                      className="w-12 bg-gray-900 text-white text-xs p-1 rounded"
+                      disabled={isProcessing}
+                    />
+                  </>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded flex-1"
+                  onClick={handleFindSlices}
+                  disabled={isProcessing}
+                >
+                  Find Slices
+                </button>
+                <button
+                  className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded flex-1"
+                  onClick={handleAddMarker}
+                  disabled={isProcessing}
+                >
+                  Add Marker
+                </button>
+                <button
+                  className="bg-gray-700 text-white py-1 px-3 text-xs hover:bg-gray-600 rounded flex-1"
+                  onClick={handleChop}
+                  disabled={isProcessing}
+                >
+                  Chop to Pads
+                </button>
+              </div>
+              {cues.length > 0 && (
+                <div className="max-h-32 overflow-y-auto space-y-1">
+                  {cues.map((cue, index) => (
+                    <div key={`${index}-${cue.position}`} className="flex items-center space-x-2 text-xs">
+                      <span className="text-gray-400 w-12">Slice {index + 2}</span>
+                      <input
+                        type="number"
+                        min="1"
+                        max={renderedLength - 1}
+                        defaultValue={cue.position}
+                        onBlur={(e) =>
+                          updateCues(cues.map((c, i) => (i === index ? { ...c, position: Number(e.target.value) } : c)))
+                        }
+                        className="flex-1 bg-gray-900 text-white text-xs p-1 rounded"
+                        disabled={isProcessing}
+                      />
+                      <button
+                        className="text-red-400 hover:text-red-300"
+                        onClick={() => updateCues(cues.filter((_, i) => i !== index))}
+                        disabled={isProcessing}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
 
       <div className="mt-2 flex justify-between items-center">
         <div className="text-xs text-gray-400">{isProcessing ? "Processing..." : message}</div>
-        <button
-          className="bg-green-700 text-white py-1 px-3 text-xs hover:bg-green-600 rounded"
-          onClick={handleSave}
-          disabled={isProcessing}
-        >
-          Save Changes
-        </button>
+        <div className="flex items-center space-x-2">
+          <WAVFormatOptions value={audioFormat} onChange={setAudioFormat} disabled={isProcessing} />
+          <button
+            className="bg-gray-800 text-white py-1 px-3 text-xs hover:bg-gray-700 rounded"
+            onClick={handleExportWAV}
+            disabled={isProcessing}
+          >
+            Export WAV
+          </button>
+          <button
+            className="bg-green-700 text-white py-1 px-3 text-xs hover:bg-green-600 rounded"
+            onClick={handleSave}
+            disabled={isProcessing}
+          >
+            Save Changes
+          </button>
+        </div>
       </div>
     </div>
   )
@@ -2,9 +2,11 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
-import Sequencer, { type SequencerPattern } from "@/lib/sequencer"
+import { useState } from "react"
+import Sequencer from "@/lib/sequencer"
 import SampleManager from "@/lib/sample-manager"
+import HistoryService from "@/lib/services/history-service"
+import { useCurrentPattern, useCurrentStep, useSequencerTransport } from "@/hooks/use-services"
 
 interface SequencerViewProps {
   isPlaying: boolean
@@ -12,46 +14,50 @@ interface SequencerViewProps {
 }
 
 export default function SequencerView({ isPlaying, togglePlayback }: SequencerViewProps) {
-  const [pattern, setPattern] = useState<SequencerPattern | null>(null)
-  const [currentStep, setCurrentStep] = useState(0)
-  const [tempo, setTempo] = useState(120)
+  const pattern = useCurrentPattern()
+  const currentStep = useCurrentStep()
+  const { tempo } = useSequencerTransport()
+  const [tempoText, setTempoText] = useState<string | null>(null) // tempo being typed
   const [selectedTrack, setSelectedTrack] = useState<string | null>(null)
-
-  useEffect(() => {
-    // Get current pattern
-    const sequencer = Sequencer.getInstance()
-    const currentPattern = sequencer.getCurrentPattern()
-
-    if (currentPattern) {
-      setPattern(currentPattern)
-      setTempo(sequencer.getTempo())
-    }
-
-    // Set up interval to refresh state
-    const intervalId = setInterval(() => {
-      setCurrentStep(sequencer.getCurrentStep())
-    }, 50)
-
-    return () => clearInterval(intervalId)
-  }, [])
+  const [selectedStep, setSelectedStep] = useState<number>(0) // step the nudge applies to
 
   const handleStepClick = (trackId: string, stepIndex: number) => {
     const sequencer = Sequencer.getInstance()
-    sequencer.toggleStep(trackId, stepIndex)
+    HistoryService.getInstance().execute(`Toggle step ${stepIndex + 1}`, () => sequencer.toggleStep(trackId, stepIndex))
+    setSelectedStep(stepIndex)
+  }
 
-    // Update pattern state
-    const updatedPattern = sequencer.getCurrentPattern()
-    if (updatedPattern) {
-      setPattern({ ...updatedPattern })
-    }
+  // Swing is shown the MPC way, 50% playing straight. Each drag of a slider is one undo entry.
+  const handleSwingChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const swing = Number.parseInt(e.target.value, 10)
+    HistoryService.getInstance().execute(
+      `Set swing to ${swing}%`,
+      () => Sequencer.getInstance().setSwing((swing - 50) / 50),
+      "swing",
+    )
+  }
+
+  const handleNudgeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!selectedTrack) return
+    const offset = Number.parseInt(e.target.value, 10) / 100
+    HistoryService.getInstance().execute(
+      `Nudge step ${selectedStep + 1}`,
+      () => Sequencer.getInstance().setStepOffset(selectedTrack, selectedStep, offset),
+      `nudge/${selectedTrack}/${selectedStep}`,
+    )
   }
 
   const handleTempoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const newTempo = Number.parseInt(e.target.value, 10)
-    setTempo(newTempo)
+    setTempoText(e.target.value)
 
-    const sequencer = Sequencer.getInstance()
-    sequencer.setTempo(newTempo)
+    const newTempo = Number.parseInt(e.target.value, 10)
+    if (!Number.isNaN(newTempo)) {
+      HistoryService.getInstance().execute(
+        `Set tempo to ${newTempo} BPM`,
+        () => Sequencer.getInstance().setTempo(newTempo),
+        "tempo",
+      )
+    }
   }
 
   const handleTrackClick = (trackId: string) => {
@@ -64,6 +70,8 @@ export default function SequencerView({ isPlaying, togglePlayback }: SequencerVi
     return sample ? sample.name : `Pad ${padId + 1}`
   }
 
+  const selectedTrackSteps = pattern?.tracks.find((track) => track.id === selectedTrack)?.steps
+
   if (!pattern) {
     return (
       <div className="w-full h-full bg-black rounded-md p-2 flex flex-col items-center justify-center">
@@ -82,10 +90,21 @@ export default function SequencerView({ isPlaying, togglePlayback }: SequencerVi
             type="number"
             min="30"
             max="300"
-            value={tempo}
+            value={tempoText ?? tempo}
             onChange={handleTempoChange}
+            onBlur={() => setTempoText(null)}
             className="w-12 bg-gray-800 text-white text-xs p-1 rounded"
           />
+          <span className="text-xs ml-3 mr-2">Swing:</span>
+          <input
+            type="range"
+            min="50"
+            max="75"
+            value={Math.round(50 + (pattern.swing || 0) * 50)}
+            onChange={handleSwingChange}
+            className="w-16"
+          />
+          <span className="text-xs ml-1 w-8">{Math.round(50 + (pattern.swing || 0) * 50)}%</span>
         </div>
       </div>
 
@@ -105,7 +124,8 @@ export default function SequencerView({ isPlaying, togglePlayback }: SequencerVi
                     key={index}
                     className={`w-6 h-6 m-[1px] cursor-pointer border border-gray-700 rounded-sm
                               ${step.active ? "bg-green-500" : "bg-gray-800"}
-                              ${currentStep === index && isPlaying ? "ring-1 ring-white" : ""}`}
+                              ${currentStep === index && isPlaying ? "ring-1 ring-white" : ""}
+                              ${step.offset ? "border-yellow-500" : ""}`}
                     onClick={() => handleStepClick(track.id, index)}
                   ></div>
                 ))}
@@ -115,6 +135,34 @@ export default function SequencerView({ isPlaying, togglePlayback }: SequencerVi
         </div>
       </div>
 
+      {selectedTrackSteps && (
+        <div className="mt-2 flex items-center text-white text-xs">
+          <span className="mr-2">Nudge step</span>
+          <select
+            value={selectedStep}
+            onChange={(e) => setSelectedStep(Number.parseInt(e.target.value, 10))}
+            className="bg-gray-800 text-white text-xs p-1 rounded"
+          >
+            {selectedTrackSteps.slice(0, 16).map((_, index) => (
+              <option key={index} value={index}>
+                {index + 1}
+              </option>
+            ))}
+          </select>
+          <input
+            type="range"
+            min="-50"
+            max="50"
+            value={Math.round((selectedTrackSteps[selectedStep]?.offset || 0) * 100)}
+            onChange={handleNudgeChange}
+            className="flex-1 mx-2"
+          />
+          <span className="w-20 text-right">
+            {Math.round((selectedTrackSteps[selectedStep]?.offset || 0) * 100)}% of a step
+          </span>
+        </div>
+      )}
+
       <div className="mt-2 flex justify-between">
         <button
           className={`bg-gray-800 text-white py-2 px-4 text-xs hover:bg-gray-700 rounded
@@ -0,0 +1,52 @@
+"use client"
+
+import { WAV_BIT_DEPTHS, WAV_SAMPLE_RATES, type WAVBitDepth, type WAVEncodeOptions } from "@/lib/services/wav-encoder"
+
+interface WAVFormatOptionsProps {
+  value: WAVEncodeOptions
+  onChange: (value: WAVEncodeOptions) => void
+  disabled?: boolean
+}
+
+export default function WAVFormatOptions({ value, onChange, disabled }: WAVFormatOptionsProps) {
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="text-white text-xs">WAV:</span>
+      <select
+        value={value.bitDepth || 16}
+        onChange={(e) => onChange({ ...value, bitDepth: Number(e.target.value) as WAVBitDepth })}
+        className="bg-gray-800 text-white text-xs p-1 rounded"
+        disabled={disabled}
+      >
+        {WAV_BIT_DEPTHS.map((depth) => (
+          <option key={depth} value={depth}>
+            {depth === 32 ? "32-bit float" : `${depth}-bit`}
+          </option>
+        ))}
+      </select>
+      <select
+        value={value.sampleRate || ""}
+        onChange={(e) => onChange({ ...value, sampleRate: Number(e.target.value) || undefined })}
+        className="bg-gray-800 text-white text-xs p-1 rounded"
+        disabled={disabled}
+      >
+        <option value="">Source rate</option>
+        {WAV_SAMPLE_RATES.map((rate) => (
+          <option key={rate} value={rate}>
+            {rate / 1000} kHz
+          </option>
+        ))}
+      </select>
+      <select
+        value={value.channels || ""}
+        onChange={(e) => onChange({ ...value, channels: (Number(e.target.value) || undefined) as 1 | 2 | undefined })}
+        className="bg-gray-800 text-white text-xs p-1 rounded"
+        disabled={disabled}
+      >
+        <option value="">Source channels</option>
+        <option value={1}>Mono</option>
+        <option value={2}>Stereo</option>
+      </select>
+    </div>
+  )
+}
@@ -5,6 +5,10 @@ import type React from "react"
 import { useState, useRef } from "react"
 import type { Sample } from "@/lib/sample-manager"
 import { XPMImporter, type XPMProgram } from "@/lib/services/xpm-importer"
+import { collectSampleRefs } from "@/lib/services/xpm-program"
+import { applyXPMDiff, diffXPMPrograms, type XPMDiffEntry } from "@/lib/services/xpm-diff"
+import { serializeXPM } from "@/lib/services/xpm-serializer"
+import { repairXPM, XML_STRUCTURE_RULE, XPM_FIX_RULES, type XPMRepairResult } from "@/lib/services/xpm-repair"
 
 export default function XPMImportView() {
   const [xpmFile, setXpmFile] = useState<File | null>(null)
@@ -13,6 +17,10 @@ export default function XPMImportView() {
   const [message, setMessage] = useState<string | null>(null)
   const [xpmProgram, setXpmProgram] = useState<XPMProgram | null>(null)
   const [importedSamples, setImportedSamples] = useState<Sample[]>([])
+  const [unknownElements, setUnknownElements] = useState<string[]>([])
+  const [repairResult, setRepairResult] = useState<XPMRepairResult | null>(null)
+  const [diffEntries, setDiffEntries] = useState<XPMDiffEntry[]>([])
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set())
 
   const xpmFileInputRef = useRef<HTMLInputElement>(null)
   const sampleFilesInputRef = useRef<HTMLInputElement>(null)
@@ -21,6 +29,8 @@ export default function XPMImportView() {
     if (e.target.files && e.target.files.length > 0) {
       const file = e.target.files[0]
       setXpmFile(file)
+      setRepairResult(null)
+      setDiffEntries([])
 
       try {
         setMessage("Parsing XPM file...")
@@ -31,6 +41,7 @@ export default function XPMImportView() {
         // Parse the XPM file
         const program = await importer.parseXPMFile(file)
         setXpmProgram(program)
+        setUnknownElements(importer.getUnknownElements())
 
         setMessage(`XPM parsed successfully: ${program.name} (${program.type})`)
       } catch (error) {
@@ -40,6 +51,71 @@ export default function XPMImportView() {
     }
   }
 
+  const handleFixXpm = async () => {
+    if (!xpmFile) return
+
+    try {
+      setMessage("Fixing XPM file...")
+
+      const result = repairXPM(await xpmFile.text())
+      setRepairResult(result)
+      setUnknownElements(result.unknownElements)
+
+      // Every fix starts out accepted
+      const entries = diffXPMPrograms(result.original, result.program)
+      setDiffEntries(entries)
+      setAcceptedIds(new Set(entries.map((entry) => entry.id)))
+
+      setMessage(
+        result.changes.length > 0 ? `Applied ${result.changes.length} fixes` : "No problems found in XPM file",
+      )
+    } catch (error) {
+      console.error("Failed to fix XPM file:", error)
+      setMessage("Failed to fix XPM file")
+    }
+  }
+
+  const handleToggleChange = (id: string) => {
+    setAcceptedIds((previous) => {
+      const next = new Set(previous)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  // The program with only the accepted fixes applied
+  const reviewedProgram = repairResult
+    ? applyXPMDiff(repairResult.original, repairResult.program, acceptedIds)
+    : xpmProgram
+
+  const handleDownloadFixed = () => {
+    if (!xpmFile || !reviewedProgram) return
+
+    const blob = new Blob([serializeXPM(reviewedProgram)], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = xpmFile.name.replace(/\.xpm$/i, "") + "_fixed.xpm"
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  // Change log grouped by the rule that made each change
+  const changesByRule = repairResult
+    ? [{ id: XML_STRUCTURE_RULE, name: "XML structure" }, ...XPM_FIX_RULES]
+        .map((rule) => ({
+          ...rule,
+          messages: repairResult.changes.filter((c) => c.rule === rule.id).map((c) => c.message),
+        }))
+        .filter((rule) => rule.messages.length > 0)
+    : []
+
   const handleSampleFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const files = Array.from(e.target.files)
@@ -49,7 +125,7 @@ export default function XPMImportView() {
   }
 
   const handleImport = async () => {
-    if (!xpmProgram || sampleFiles.length === 0) {
+    if (!reviewedProgram || sampleFiles.length === 0) {
       setMessage("Please select an XPM file and sample files")
       return
     }
@@ -62,7 +138,7 @@ export default function XPMImportView() {
       const importer = new XPMImporter()
 
       // Import the program
-      const samples = await importer.importProgram(xpmProgram, sampleFiles)
+      const samples = await importer.importProgram(reviewedProgram, sampleFiles)
       setImportedSamples(samples)
 
       setMessage(`Import complete: ${samples.length} samples imported`)
@@ -108,6 +184,14 @@ export default function XPMImportView() {
               {xpmFile && <div className="text-gray-400 text-xs mt-1">Selected: {xpmFile.name}</div>}
             </div>
 
+            <button
+              className="bg-yellow-700 text-white py-1 px-3 text-xs hover:bg-yellow-600 rounded w-full"
+              onClick={handleFixXpm}
+              disabled={isImporting || !xpmFile}
+            >
+              Fix XPM
+            </button>
+
             <div>
               <input
                 type="file"
@@ -132,22 +216,97 @@ export default function XPMImportView() {
             <button
               className="bg-green-700 text-white py-1 px-3 text-xs hover:bg-green-600 rounded w-full"
               onClick={handleImport}
-              disabled={isImporting || !xpmProgram || sampleFiles.length === 0}
+              disabled={isImporting || !reviewedProgram || sampleFiles.length === 0}
             >
               {isImporting ? "Importing..." : "Import XPM"}
             </button>
           </div>
         </div>
 
-        {xpmProgram && (
+        {reviewedProgram && (
           <div className="bg-gray-800 p-2 rounded mb-4">
             <div className="text-white text-xs mb-2">XPM Program</div>
             <div className="text-gray-400 text-xs">
-              <div>Name: {xpmProgram.name}</div>
-              <div>Type: {xpmProgram.type}</div>
-              <div>Samples: {xpmProgram.samples.length}</div>
-              {xpmProgram.type === "instrument" && <div>Keygroups: {xpmProgram.keygroups?.length || 0}</div>}
-              {xpmProgram.type === "drumkit" && <div>Pads: {xpmProgram.pads?.length || 0}</div>}
+              <div>Name: {reviewedProgram.name}</div>
+              <div>Type: {reviewedProgram.type}</div>
+              <div>Samples: {collectSampleRefs(reviewedProgram).length}</div>
+              {reviewedProgram.type === "instrument" && <div>Keygroups: {reviewedProgram.instruments.length}</div>}
+              {reviewedProgram.type === "drumkit" && (
+                <div>Pads: {reviewedProgram.instruments.filter((i) => i.layers.length > 0).length} assigned</div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {unknownElements.length > 0 && (
+          <div className="bg-gray-800 p-2 rounded mb-4">
+            <div className="text-white text-xs mb-2">Not Imported ({unknownElements.length})</div>
+            <div className="max-h-32 overflow-y-auto">
+              {unknownElements.map((path) => (
+                <div key={path} className="text-yellow-500 text-xs truncate">
+                  {path}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {repairResult && (
+          <div className="bg-gray-800 p-2 rounded mb-4">
+            <div className="flex justify-between items-center mb-2">
+              <div className="text-white text-xs">Fixes ({repairResult.changes.length})</div>
+              <button
+                className="bg-gray-700 text-white py-1 px-2 text-xs hover:bg-gray-600 rounded"
+                onClick={handleDownloadFixed}
+              >
+                Download Fixed
+              </button>
+            </div>
+            {changesByRule.length === 0 && <div className="text-gray-400 text-xs">No problems found</div>}
+            <div className="max-h-48 overflow-y-auto space-y-2">
+              {changesByRule.map((rule) => (
+                <div key={rule.id}>
+                  <div className="text-gray-300 text-xs">
+                    {rule.name} ({rule.messages.length})
+                  </div>
+                  {rule.messages.map((message, index) => (
+                    <div key={index} className="text-green-500 text-xs pl-2">
+                      {message}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {diffEntries.length > 0 && (
+          <div className="bg-gray-800 p-2 rounded mb-4">
+            <div className="text-white text-xs mb-2">
+              Review Changes ({acceptedIds.size}/{diffEntries.length} accepted)
+            </div>
+            <div className="max-h-48 overflow-y-auto">
+              {diffEntries.map((entry) => (
+                <label key={entry.id} className="flex items-start text-xs text-gray-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mr-2 mt-0.5"
+                    checked={acceptedIds.has(entry.id)}
+                    onChange={() => handleToggleChange(entry.id)}
+                  />
+                  <span
+                    className={
+                      entry.kind === "added"
+                        ? "text-green-500"
+                        : entry.kind === "removed"
+                          ? "text-red-500"
+                          : "text-yellow-500"
+                    }
+                  >
+                    {entry.description}
+                  </span>
+                </label>
+              ))}
             </div>
           </div>
         )}
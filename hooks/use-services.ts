@@ -0,0 +1,115 @@
+import * as React from "react"
+import type { EventEmitter } from "@/lib/event-emitter"
+import SampleManager, { type PadAssignment, type Sample } from "@/lib/sample-manager"
+import Sequencer, { type SequencerPattern } from "@/lib/sequencer"
+import DrumKitService, { type DrumKit, type DrumKitServiceEvents } from "@/lib/services/drumkit-service"
+import InstrumentService, { type Instrument, type InstrumentServiceEvents } from "@/lib/services/instrument-service"
+
+/**
+ * Reads a value from a service once mounted, reading it again whenever one of the events is emitted. The first
+ * render gets the initial value, as the services only exist in the browser.
+ * Services edit their objects in place, so `read` should return new objects for React to see a change.
+ */
+export function useServiceState<Events extends object, T>(
+  getEvents: () => EventEmitter<Events>,
+  events: (keyof Events)[],
+  read: () => T,
+  initialValue: T,
+): T {
+  const [value, setValue] = React.useState<T>(initialValue)
+
+  React.useEffect(() => {
+    const emitter = getEvents()
+    const update = () => setValue(read())
+    const unsubscribes = events.map((event) => emitter.on(event, update))
+
+    update()
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [])
+
+  return value
+}
+
+export function useSamples(): Sample[] {
+  return useServiceState(
+    () => SampleManager.getInstance().events,
+    ["sampleAdded", "sampleUpdated", "sampleDeleted", "stateReplaced"],
+    () => SampleManager.getInstance().getAllSamples(),
+    [],
+  )
+}
+
+export function usePadAssignments(): PadAssignment[] {
+  return useServiceState(
+    () => SampleManager.getInstance().events,
+    ["padAssigned", "stateReplaced"],
+    () =>
+      SampleManager.getInstance()
+        .getPadAssignments()
+        .map((assignment) => ({ ...assignment })),
+    [],
+  )
+}
+
+export function useSequencerTransport(): { isPlaying: boolean; tempo: number } {
+  return useServiceState(
+    () => Sequencer.getInstance().events,
+    ["transportChanged", "tempoChanged"],
+    () => {
+      const sequencer = Sequencer.getInstance()
+      return { isPlaying: sequencer.isSequencerPlaying(), tempo: sequencer.getTempo() }
+    },
+    { isPlaying: false, tempo: 120 },
+  )
+}
+
+/**
+ * The step being played, kept apart from the transport as it changes every step
+ */
+export function useCurrentStep(): number {
+  return useServiceState(
+    () => Sequencer.getInstance().events,
+    ["stepChanged"],
+    () => Sequencer.getInstance().getCurrentStep(),
+    0,
+  )
+}
+
+export function useCurrentPattern(): SequencerPattern | null {
+  return useServiceState(
+    () => Sequencer.getInstance().events,
+    ["patternChanged", "patternsReplaced"],
+    () => {
+      const pattern = Sequencer.getInstance().getCurrentPattern()
+      return pattern ? { ...pattern } : null
+    },
+    null,
+  )
+}
+
+export function useDrumKits(): { kits: DrumKit[]; currentKit: DrumKit | null } {
+  return useServiceState<DrumKitServiceEvents, { kits: DrumKit[]; currentKit: DrumKit | null }>(
+    () => DrumKitService.getInstance().events,
+    ["kitAdded", "kitChanged", "kitDeleted", "currentKitChanged", "stateReplaced"],
+    () => {
+      const drumKitService = DrumKitService.getInstance()
+      return { kits: drumKitService.getAllKits(), currentKit: { ...drumKitService.getCurrentKit() } }
+    },
+    { kits: [], currentKit: null },
+  )
+}
+
+export function useInstruments(): { instruments: Instrument[]; currentInstrument: Instrument | null } {
+  return useServiceState<InstrumentServiceEvents, { instruments: Instrument[]; currentInstrument: Instrument | null }>(
+    () => InstrumentService.getInstance().events,
+    ["instrumentAdded", "instrumentChanged", "instrumentDeleted", "currentInstrumentChanged", "stateReplaced"],
+    () => {
+      const instrumentService = InstrumentService.getInstance()
+      return {
+        instruments: instrumentService.getAllInstruments(),
+        currentInstrument: { ...instrumentService.getCurrentInstrument() },
+      }
+    },
+    { instruments: [], currentInstrument: null },
+  )
+}
@@ -3,7 +3,7 @@ class AudioContextManager {
   private static instance: AudioContextManager
   private context: AudioContext | null = null
   private samples: Map<string, AudioBuffer> = new Map()
-  private activeSources: Map<string, AudioBufferSourceNode> = new Map()
+  private activeSources: Map<string, { source: AudioBufferSourceNode; startTime: number }> = new Map()
   private masterGainNode: GainNode | null = null
 
   private constructor() {
@@ -67,21 +67,40 @@ class AudioContextManager {
     }
   }
 
+  /**
+   * Registers audio created in the app, such as sample slices, for playback
+   */
+  public setSample(id: string, buffer: AudioBuffer): void {
+    this.samples.set(id, buffer)
+  }
+
   public getSample(id: string): AudioBuffer | undefined {
     return this.samples.get(id)
   }
 
-  public playSample(id: string, options: { volume?: number; pitch?: number } = {}): void {
-    if (!this.context || !this.masterGainNode) return
+  /**
+   * Plays a sample now, or at a time on the audio clock when given one. Returns the source node playing it.
+   */
+  public playSample(
+    id: string,
+    options: { volume?: number; pitch?: number; detune?: number; when?: number } = {},
+  ): AudioBufferSourceNode | null {
+    if (!this.context || !this.masterGainNode) return null
 
     const buffer = this.samples.get(id)
     if (!buffer) {
       console.warn(`Sample with id ${id} not found`)
-      return
+      return null
     }
 
-    // Stop any currently playing instance of this sample
-    this.stopSample(id)
+    // Stop any currently playing instance of this sample, when this one starts. An instance scheduled to start
+    // later keeps playing, as stopping it before it starts would drop it; this one stops when that one starts.
+    const startTime = Math.max(options.when ?? 0, this.context.currentTime)
+    const playing = this.activeSources.get(id)
+    const startsFirst = !!playing && startTime < playing.startTime
+    if (!startsFirst) {
+      this.stopSample(id, options.when)
+    }
 
     // Create source node
     const source = this.context.createBufferSource()
@@ -92,6 +111,11 @@ class AudioContextManager {
       source.detune.value = (options.pitch - 1) * 1200 // Convert to cents
     }
 
+    // Apply an offset in cents, e.g. to play a sample away from its root note
+    if (options.detune) {
+      source.detune.value += options.detune
+    }
+
     // Create gain node for this sample
     const gainNode = this.context.createGain()
     gainNode.gain.value = options.volume ?? 1
@@ -101,22 +125,34 @@ class AudioContextManager {
     gainNode.connect(this.masterGainNode)
 
     // Start playback
-    source.start(0)
+    source.start(options.when ?? 0)
+
+    if (playing && startsFirst) {
+      source.stop(playing.startTime)
+      return source
+    }
 
     // Store reference to stop later
-    this.activeSources.set(id, source)
+    this.activeSources.set(id, { source, startTime })
 
-    // Remove reference when playback ends
+    // Remove reference when playback ends, unless a later instance took its place
     source.onended = () => {
-      this.activeSources.delete(id)
+      if (this.activeSources.get(id)?.source === source) {
+        this.activeSources.delete(id)
+      }
     }
+
+    return source
   }
 
-  public stopSample(id: string): void {
-    const source = this.activeSources.get(id)
-    if (source) {
+  /**
+   * Stops a sample now, or at a time on the audio clock when given one
+   */
+  public stopSample(id: string, when = 0): void {
+    const playing = this.activeSources.get(id)
+    if (playing) {
       try {
-        source.stop()
+        playing.source.stop(when)
       } catch (e) {
         // Ignore errors if already stopped
       }
@@ -125,7 +161,7 @@ class AudioContextManager {
   }
 
   public stopAllSamples(): void {
-    this.activeSources.forEach((source, id) => {
+    this.activeSources.forEach((playing, id) => {
       this.stopSample(id)
     })
   }
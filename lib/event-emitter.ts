@@ -0,0 +1,34 @@
+// Change events the services publish, so views can follow the state instead of polling it
+
+type Listener<T> = (payload: T) => void
+
+// Events without a payload are declared as void and emitted without an argument
+type EmitArgs<T> = [T] extends [void] ? [] : [T]
+
+export class EventEmitter<Events extends object> {
+  private listeners: { [E in keyof Events]?: Set<Listener<Events[E]>> } = {}
+
+  /**
+   * Calls the listener whenever the event is emitted. Returns an unsubscribe function.
+   */
+  public on<E extends keyof Events>(event: E, listener: Listener<Events[E]>): () => void {
+    const listeners = this.listeners[event] || new Set<Listener<Events[E]>>()
+    listeners.add(listener)
+    this.listeners[event] = listeners
+
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  public emit<E extends keyof Events>(event: E, ...args: EmitArgs<Events[E]>): void {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(args[0] as Events[E])
+      } catch (error) {
+        // One failing view should not keep the others from updating
+        console.error(`Error in ${String(event)} listener:`, error)
+      }
+    })
+  }
+}
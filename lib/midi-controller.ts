@@ -8,6 +8,10 @@ export interface MIDIDeviceInfo {
   type: "input" | "output"
 }
 
+export interface MIDIControllerState {
+  padMappings: [number, number][] // MIDI note, pad ID
+}
+
 class MIDIController {
   private static instance: MIDIController
   private midiAccess: WebMidi.MIDIAccess | null = null
@@ -186,6 +190,14 @@ class MIDIController {
   public getPadMappings(): Map<number, number> {
     return new Map(this.padMappings)
   }
+
+  public exportState(): MIDIControllerState {
+    return { padMappings: Array.from(this.padMappings.entries()) }
+  }
+
+  public importState(state: MIDIControllerState): void {
+    this.padMappings = new Map(state.padMappings)
+  }
 }
 
 export default MIDIController
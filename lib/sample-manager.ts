@@ -1,4 +1,7 @@
 import AudioContextManager from "./audio-context"
+import { EventEmitter } from "./event-emitter"
+import { readAudioMetadata } from "./services/audio-metadata"
+import type { SampleEdit } from "./services/sample-edits"
 
 export interface Sample {
   id: string
@@ -7,6 +10,34 @@ export interface Sample {
   waveform: number[] // Normalized waveform data (0-1)
   duration: number
   isLoaded: boolean
+  rootNote?: number // MIDI note the sample was recorded at
+  fineTune?: number // cents the recording deviates from the root note
+  loop?: SampleLoop | null
+  cues?: SampleCue[]
+  bitDepth?: number // bit depth of the source file, decoded buffers are always float
+  tempo?: number // BPM from an acid chunk
+  keyRange?: SampleRange // suggested MIDI note range from an inst chunk
+  velocityRange?: SampleRange // suggested velocity range from an inst chunk
+  tags?: Record<string, string> // text tags such as title, artist and comment
+  originalBuffer?: AudioBuffer | null // unedited audio the edit list renders from
+  edits?: SampleEdit[]
+}
+
+// Loop and cue positions are sample frames, the loop end is inclusive
+export interface SampleLoop {
+  start: number
+  end: number
+  type: "forward" | "pingpong" | "reverse"
+}
+
+export interface SampleCue {
+  position: number
+  label?: string
+}
+
+export interface SampleRange {
+  low: number
+  high: number
 }
 
 export interface PadAssignment {
@@ -15,6 +46,19 @@ export interface PadAssignment {
   color?: string
 }
 
+export interface SampleManagerState {
+  samples: Sample[]
+  padAssignments: PadAssignment[]
+}
+
+export interface SampleManagerEvents {
+  sampleAdded: Sample
+  sampleUpdated: Sample
+  sampleDeleted: string // sample ID
+  padAssigned: PadAssignment
+  stateReplaced: void // every sample and pad assignment replaced, e.g. by opening a project or undoing
+}
+
 class SampleManager {
   private static instance: SampleManager
   private samples: Map<string, Sample> = new Map()
@@ -26,6 +70,7 @@ class SampleManager {
       color: this.getRandomPadColor(),
     }))
   private audioContext: AudioContextManager
+  public readonly events = new EventEmitter<SampleManagerEvents>()
 
   private constructor() {
     this.audioContext = AudioContextManager.getInstance()
@@ -65,11 +110,15 @@ class SampleManager {
     }
 
     this.samples.set(id, sample)
+    this.events.emit("sampleAdded", sample)
 
     try {
       // Read file as ArrayBuffer
       const arrayBuffer = await file.arrayBuffer()
 
+      // Read the metadata chunks first, decoding detaches the buffer
+      const metadata = readAudioMetadata(arrayBuffer)
+
       // Load into audio context
       const buffer = await this.audioContext.loadSample(id, arrayBuffer)
 
@@ -80,6 +129,7 @@ class SampleManager {
         // Update sample with loaded data
         const updatedSample: Sample = {
           ...sample,
+          ...metadata,
           buffer,
           waveform,
           duration: buffer.duration,
@@ -87,6 +137,7 @@ class SampleManager {
         }
 
         this.samples.set(id, updatedSample)
+        this.events.emit("sampleUpdated", updatedSample)
         return updatedSample
       }
 
@@ -97,6 +148,27 @@ class SampleManager {
     }
   }
 
+  /**
+   * Adds a sample for audio created in the app rather than loaded from a file
+   */
+  public createSample(name: string, buffer: AudioBuffer, metadata: Partial<Sample> = {}): Sample {
+    const id = `sample_${Date.now()}_${Math.floor(Math.random() * 1000)}`
+    const sample: Sample = {
+      ...metadata,
+      id,
+      name,
+      buffer,
+      waveform: this.generateWaveformData(buffer),
+      duration: buffer.duration,
+      isLoaded: true,
+    }
+
+    this.audioContext.setSample(id, buffer)
+    this.samples.set(id, sample)
+    this.events.emit("sampleAdded", sample)
+    return sample
+  }
+
   private generateWaveformData(buffer: AudioBuffer, points = 100): number[] {
     const channelData = buffer.getChannelData(0) // Use first channel
     const blockSize = Math.floor(channelData.length / points)
@@ -130,6 +202,7 @@ class SampleManager {
 
   public updateSample(sample: Sample): void {
     this.samples.set(sample.id, sample)
+    this.events.emit("sampleUpdated", sample)
   }
 
   public deleteSample(id: string): boolean {
@@ -137,15 +210,25 @@ class SampleManager {
     this.padAssignments.forEach((assignment) => {
       if (assignment.sampleId === id) {
         assignment.sampleId = null
+        this.events.emit("padAssigned", assignment)
       }
     })
 
     // Delete the sample
-    return this.samples.delete(id)
+    if (!this.samples.delete(id)) return false
+
+    this.events.emit("sampleDeleted", id)
+    return true
   }
 
-  public playSample(id: string, options: { volume?: number; pitch?: number } = {}): void {
-    this.audioContext.playSample(id, options)
+  /**
+   * Plays a sample now, or at a time on the audio clock when given one. Returns the source node playing it.
+   */
+  public playSample(
+    id: string,
+    options: { volume?: number; pitch?: number; when?: number } = {},
+  ): AudioBufferSourceNode | null {
+    return this.audioContext.playSample(id, options)
   }
 
   public stopSample(id: string): void {
@@ -156,6 +239,7 @@ class SampleManager {
     const assignment = this.padAssignments.find((a) => a.padId === padId)
     if (assignment) {
       assignment.sampleId = sampleId
+      this.events.emit("padAssigned", assignment)
     }
   }
 
@@ -175,11 +259,43 @@ class SampleManager {
     return undefined
   }
 
-  public playPad(padId: number): void {
+  /**
+   * The samples and pad assignments, for saving a project
+   */
+  public exportState(): SampleManagerState {
+    return {
+      samples: this.getAllSamples().map((sample) => ({ ...sample })),
+      padAssignments: this.padAssignments.map((assignment) => ({ ...assignment })),
+    }
+  }
+
+  /**
+   * Replaces every sample and pad assignment, registering the samples' audio for playback
+   */
+  public importState(state: SampleManagerState): void {
+    this.samples.clear()
+    for (const sample of state.samples) {
+      if (sample.buffer) {
+        this.audioContext.setSample(sample.id, sample.buffer)
+      }
+      this.samples.set(sample.id, { ...sample })
+    }
+
+    this.padAssignments.forEach((assignment) => {
+      const saved = state.padAssignments.find((a) => a.padId === assignment.padId)
+      assignment.sampleId = saved && saved.sampleId && this.samples.has(saved.sampleId) ? saved.sampleId : null
+      assignment.color = saved?.color || assignment.color
+    })
+
+    this.events.emit("stateReplaced")
+  }
+
+  public playPad(padId: number, options: { volume?: number; when?: number } = {}): AudioBufferSourceNode | null {
     const sample = this.getSampleForPad(padId)
     if (sample && sample.id) {
-      this.playSample(sample.id)
+      return this.playSample(sample.id, options)
     }
+    return null
   }
 }
 
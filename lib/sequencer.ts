@@ -1,9 +1,11 @@
 import SampleManager from "./sample-manager"
 import AudioContextManager from "./audio-context"
+import { EventEmitter } from "./event-emitter"
 
 export interface SequencerStep {
   active: boolean
   velocity: number
+  offset?: number // micro-timing as a fraction of a step, from -0.5 (early) to 0.5 (late)
 }
 
 export interface SequencerTrack {
@@ -18,9 +20,33 @@ export interface SequencerPattern {
   tracks: SequencerTrack[]
   stepsPerBar: number
   barsPerPattern: number
-  swing: number
+  swing: number // fraction of a step every second step is delayed by, from 0 (straight) to 0.5 (MPC swing 75%)
 }
 
+export interface SequencerState {
+  patterns: SequencerPattern[]
+  currentPatternId: string | null
+  tempo: number
+}
+
+export interface SequencerEvents {
+  stepToggled: { patternId: string; trackId: string; stepIndex: number; active: boolean }
+  patternChanged: SequencerPattern // a pattern was added, edited or made current
+  patternsReplaced: void // every pattern replaced, e.g. by opening a project or undoing
+  transportChanged: boolean // whether the sequencer is playing
+  stepChanged: number // step being heard
+  tempoChanged: number
+}
+
+// Every interval the scheduler queues the steps starting within the lookahead on the audio clock, so timing
+// holds however late the timer fires
+const SCHEDULER_INTERVAL = 25 // milliseconds
+const SCHEDULE_AHEAD = 0.1 // seconds
+const START_DELAY = 0.05 // seconds from pressing play to the first step, to schedule it on time
+
+const MAX_SWING = 0.5
+const MAX_STEP_OFFSET = 0.5
+
 class Sequencer {
   private static instance: Sequencer
   private sampleManager: SampleManager
@@ -32,7 +58,13 @@ class Sequencer {
   private isPlaying = false
   private currentStep = 0
   private tempo = 120
-  private intervalId: number | null = null
+  private schedulerId: number | null = null
+  private animationFrameId: number | null = null
+  private nextStep = 0 // next step to schedule
+  private nextStepTime = 0 // audio clock time of the next step on the grid
+  private scheduledSteps: { step: number; time: number }[] = [] // steps for the playhead to reach
+  private scheduledSources: { source: AudioBufferSourceNode; when: number }[] = []
+  public readonly events = new EventEmitter<SequencerEvents>()
 
   private constructor() {
     this.sampleManager = SampleManager.getInstance()
@@ -86,6 +118,7 @@ class Sequencer {
       this.currentPatternId = id
     }
 
+    this.events.emit("patternChanged", pattern)
     return id
   }
 
@@ -95,13 +128,47 @@ class Sequencer {
   }
 
   public setCurrentPattern(id: string): boolean {
-    if (this.patterns.has(id)) {
+    const pattern = this.patterns.get(id)
+    if (pattern) {
       this.currentPatternId = id
+      this.events.emit("patternChanged", pattern)
       return true
     }
     return false
   }
 
+  public exportState(): SequencerState {
+    return {
+      patterns: JSON.parse(JSON.stringify(this.getAllPatterns())),
+      currentPatternId: this.currentPatternId,
+      tempo: this.tempo,
+    }
+  }
+
+  /**
+   * Replaces the patterns and tempo, creating a new pattern when the state has none. Playback carries on.
+   */
+  public importState(state: SequencerState): void {
+    this.patterns.clear()
+    for (const pattern of state.patterns) {
+      this.patterns.set(pattern.id, JSON.parse(JSON.stringify(pattern)))
+    }
+
+    this.currentPatternId =
+      state.currentPatternId && this.patterns.has(state.currentPatternId)
+        ? state.currentPatternId
+        : this.patterns.keys().next().value || null
+    if (state.tempo !== this.tempo) {
+      this.setTempo(state.tempo)
+    }
+
+    if (this.patterns.size === 0) {
+      this.createNewPattern()
+    }
+
+    this.events.emit("patternsReplaced")
+  }
+
   public getAllPatterns(): SequencerPattern[] {
     return Array.from(this.patterns.values())
   }
@@ -113,9 +180,38 @@ class Sequencer {
     const track = pattern.tracks.find((t) => t.id === trackId)
     if (track && track.steps[stepIndex]) {
       track.steps[stepIndex].active = !track.steps[stepIndex].active
+      this.events.emit("stepToggled", {
+        patternId: pattern.id,
+        trackId,
+        stepIndex,
+        active: track.steps[stepIndex].active,
+      })
+      this.events.emit("patternChanged", pattern)
+    }
+  }
+
+  /**
+   * Nudges a step early or late by a fraction of a step
+   */
+  public setStepOffset(trackId: string, stepIndex: number, offset: number): void {
+    const pattern = this.getCurrentPattern()
+    if (!pattern) return
+
+    const track = pattern.tracks.find((t) => t.id === trackId)
+    if (track && track.steps[stepIndex]) {
+      track.steps[stepIndex].offset = Math.max(-MAX_STEP_OFFSET, Math.min(MAX_STEP_OFFSET, offset))
+      this.events.emit("patternChanged", pattern)
     }
   }
 
+  public setSwing(swing: number): void {
+    const pattern = this.getCurrentPattern()
+    if (!pattern) return
+
+    pattern.swing = Math.max(0, Math.min(MAX_SWING, swing))
+    this.events.emit("patternChanged", pattern)
+  }
+
   public setStepVelocity(trackId: string, stepIndex: number, velocity: number): void {
     const pattern = this.getCurrentPattern()
     if (!pattern) return
@@ -123,17 +219,14 @@ class Sequencer {
     const track = pattern.tracks.find((t) => t.id === trackId)
     if (track && track.steps[stepIndex]) {
       track.steps[stepIndex].velocity = Math.max(0, Math.min(1, velocity))
+      this.events.emit("patternChanged", pattern)
     }
   }
 
   public setTempo(bpm: number): void {
+    // Steps still to be scheduled follow the new tempo
     this.tempo = Math.max(30, Math.min(300, bpm))
-
-    // Update timing if playing
-    if (this.isPlaying) {
-      this.stop()
-      this.play()
-    }
+    this.events.emit("tempoChanged", this.tempo)
   }
 
   public getTempo(): number {
@@ -146,43 +239,124 @@ class Sequencer {
     const pattern = this.getCurrentPattern()
     if (!pattern) return
 
+    const context = this.audioContext.getContext()
+    if (!context) {
+      console.warn("Audio is unavailable, the sequencer cannot play")
+      return
+    }
+
     this.isPlaying = true
+    this.nextStep = 0
+    this.nextStepTime = context.currentTime + START_DELAY
+    this.events.emit("transportChanged", true)
+
+    // Start the scheduling loop and the playhead
+    this.scheduleSteps()
+    this.schedulerId = window.setInterval(() => this.scheduleSteps(), SCHEDULER_INTERVAL)
+    this.animationFrameId = window.requestAnimationFrame(this.updatePlayhead)
+  }
+
+  /**
+   * Seconds one step lasts at the current tempo
+   */
+  private getStepDuration(pattern: SequencerPattern): number {
+    return 60 / (this.tempo * (pattern.stepsPerBar / 4))
+  }
 
-    // Calculate step duration in milliseconds
-    const stepDuration = (60 * 1000) / (this.tempo * (pattern.stepsPerBar / 4))
+  private scheduleSteps(): void {
+    const context = this.audioContext.getContext()
+    const pattern = this.getCurrentPattern()
+    if (!context || !pattern) return
 
-    // Start playback loop
-    this.intervalId = window.setInterval(() => {
-      this.playCurrentStep()
+    const totalSteps = pattern.stepsPerBar * pattern.barsPerPattern
+    const stepDuration = this.getStepDuration(pattern)
+
+    // Steps nudged early start up to half a step before their place on the grid
+    while (this.nextStepTime - stepDuration * MAX_STEP_OFFSET < context.currentTime + SCHEDULE_AHEAD) {
+      const step = this.nextStep % totalSteps
+      this.scheduleStep(pattern, step, this.nextStepTime, stepDuration)
+      this.scheduledSteps.push({ step, time: this.nextStepTime })
+
+      this.nextStepTime += stepDuration
+      this.nextStep = (step + 1) % totalSteps
+    }
 
-      // Advance to next step
-      this.currentStep = (this.currentStep + 1) % (pattern.stepsPerBar * pattern.barsPerPattern)
-    }, stepDuration)
+    // Sources that started no longer need stopping
+    this.scheduledSources = this.scheduledSources.filter(({ when }) => when > context.currentTime)
   }
 
-  private playCurrentStep(): void {
-    const pattern = this.getCurrentPattern()
-    if (!pattern) return
+  /**
+   * Schedules the active steps of every track, delaying every second step by the swing and each step by its offset
+   */
+  private scheduleStep(pattern: SequencerPattern, stepIndex: number, time: number, stepDuration: number): void {
+    const context = this.audioContext.getContext()
+    if (!context) return
+
+    const swing = stepIndex % 2 === 1 ? Math.max(0, Math.min(MAX_SWING, pattern.swing || 0)) : 0
 
-    // Play all active steps in all tracks
     pattern.tracks.forEach((track) => {
-      const step = track.steps[this.currentStep]
-      if (step && step.active) {
-        this.sampleManager.playPad(track.padId)
+      const step = track.steps[stepIndex]
+      if (!step || !step.active) return
+
+      const when = Math.max(context.currentTime, time + (swing + (step.offset || 0)) * stepDuration)
+      const source = this.sampleManager.playPad(track.padId, { when })
+      if (source) {
+        this.scheduledSources.push({ source, when })
       }
     })
   }
 
+  /**
+   * Moves the playhead to the step the audio clock has reached, every animation frame while playing
+   */
+  private updatePlayhead = () => {
+    const context = this.audioContext.getContext()
+    if (!this.isPlaying || !context) return
+
+    let reached: number | null = null
+    while (this.scheduledSteps.length > 0 && this.scheduledSteps[0].time <= context.currentTime) {
+      reached = this.scheduledSteps[0].step
+      this.scheduledSteps.shift()
+    }
+
+    if (reached !== null && reached !== this.currentStep) {
+      this.currentStep = reached
+      this.events.emit("stepChanged", reached)
+    }
+
+    this.animationFrameId = window.requestAnimationFrame(this.updatePlayhead)
+  }
+
   public stop(): void {
     if (!this.isPlaying) return
 
-    if (this.intervalId !== null) {
-      clearInterval(this.intervalId)
-      this.intervalId = null
+    if (this.schedulerId !== null) {
+      clearInterval(this.schedulerId)
+      this.schedulerId = null
+    }
+    if (this.animationFrameId !== null) {
+      window.cancelAnimationFrame(this.animationFrameId)
+      this.animationFrameId = null
     }
 
+    // Silence the steps scheduled past the stop
+    const now = this.audioContext.getContext()?.currentTime ?? 0
+    this.scheduledSources.forEach(({ source, when }) => {
+      if (when > now) {
+        try {
+          source.stop()
+        } catch (e) {
+          // Ignore sources that already ended
+        }
+      }
+    })
+    this.scheduledSources = []
+    this.scheduledSteps = []
+
     this.isPlaying = false
     this.currentStep = 0
+    this.events.emit("transportChanged", false)
+    this.events.emit("stepChanged", 0)
   }
 
   public isSequencerPlaying(): boolean {
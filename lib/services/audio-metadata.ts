@@ -0,0 +1,208 @@
+import type { Sample, SampleCue, SampleLoop } from "../sample-manager"
+import { readSampleMetadata, readWAVChunks, type WAVChunk } from "./wav-chunks"
+
+// Everything a sample file can tell us beyond the audio itself
+export type AudioFileMetadata = Pick<
+  Sample,
+  "rootNote" | "fineTune" | "loop" | "cues" | "bitDepth" | "tempo" | "keyRange" | "velocityRange" | "tags"
+>
+
+// LIST/INFO and AIFF text chunk IDs mapped to tag names
+const WAV_INFO_TAGS: Record<string, string> = {
+  INAM: "title",
+  IART: "artist",
+  ICMT: "comment",
+  ICOP: "copyright",
+  ICRD: "date",
+  IGNR: "genre",
+  IKEY: "keywords",
+  ISFT: "software",
+}
+
+const AIFF_TEXT_TAGS: Record<string, string> = {
+  NAME: "title",
+  AUTH: "artist",
+  ANNO: "comment",
+  "(c) ": "copyright",
+}
+
+// acid chunk flag set when the root note field is valid
+const ACID_ROOT_NOTE_FLAG = 0x02
+
+// AIFF sustain loop play modes, 0 means no loop
+const AIFF_LOOP_TYPES: Record<number, SampleLoop["type"]> = { 1: "forward", 2: "pingpong" }
+
+/**
+ * Reads bit depth, loops, root note, tempo, key ranges and tags from a WAV or AIFF file.
+ * Other formats return no metadata, their samples fall back to analysis.
+ */
+export function readAudioMetadata(data: ArrayBuffer): AudioFileMetadata {
+  try {
+    const bytes = new Uint8Array(data)
+    const header = fourCC(bytes, 0)
+
+    if (header === "RIFF") return readWAVMetadata(data)
+    if (header === "FORM") return readAIFFMetadata(bytes)
+  } catch (error) {
+    console.warn("Failed to read audio metadata:", error)
+  }
+
+  return {}
+}
+
+function readWAVMetadata(data: ArrayBuffer): AudioFileMetadata {
+  const chunks = readWAVChunks(data)
+  const metadata: AudioFileMetadata = {}
+
+  const format = findChunk(chunks, "fmt ")
+  if (format && format.data.length >= 16) {
+    metadata.bitDepth = chunkView(format).getUint16(14, true)
+  }
+
+  // Root notes from inst and acid apply when there is no smpl chunk
+  const instrument = findChunk(chunks, "inst")
+  if (instrument && instrument.data.length >= 7) {
+    const view = chunkView(instrument)
+    metadata.rootNote = view.getUint8(0)
+    metadata.fineTune = view.getInt8(1)
+    metadata.keyRange = { low: view.getUint8(3), high: view.getUint8(4) }
+    metadata.velocityRange = { low: view.getUint8(5), high: view.getUint8(6) }
+  }
+
+  const acid = findChunk(chunks, "acid")
+  if (acid && acid.data.length >= 24) {
+    const view = chunkView(acid)
+    if (metadata.rootNote === undefined && view.getUint32(0, true) & ACID_ROOT_NOTE_FLAG) {
+      metadata.rootNote = view.getUint16(4, true)
+    }
+
+    const tempo = view.getFloat32(20, true)
+    if (tempo > 0) metadata.tempo = tempo
+  }
+
+  const tags = readInfoTags(chunks)
+  if (Object.keys(tags).length > 0) metadata.tags = tags
+
+  return { ...metadata, ...readSampleMetadata(data) }
+}
+
+function readInfoTags(chunks: WAVChunk[]): Record<string, string> {
+  const tags: Record<string, string> = {}
+
+  for (const chunk of chunks) {
+    if (chunk.id !== "LIST" || fourCC(chunk.data, 0) !== "INFO") continue
+
+    const view = chunkView(chunk)
+    let offset = 4
+    while (offset + 8 <= chunk.data.length) {
+      const id = fourCC(chunk.data, offset)
+      const size = view.getUint32(offset + 4, true)
+      const text = readText(chunk.data.subarray(offset + 8, offset + 8 + size))
+      if (text) tags[WAV_INFO_TAGS[id] || id] = text
+
+      offset += 8 + size + (size % 2)
+    }
+  }
+
+  return tags
+}
+
+function readAIFFMetadata(bytes: Uint8Array): AudioFileMetadata {
+  const formType = fourCC(bytes, 8)
+  if (formType !== "AIFF" && formType !== "AIFC") return {}
+
+  const chunks = readAIFFChunks(bytes)
+  const metadata: AudioFileMetadata = {}
+
+  const common = findChunk(chunks, "COMM")
+  if (common && common.data.length >= 8) {
+    metadata.bitDepth = chunkView(common).getInt16(6)
+  }
+
+  // Marker IDs are referenced by the instrument loops
+  const markers = new Map<number, SampleCue>()
+  const markerChunk = findChunk(chunks, "MARK")
+  if (markerChunk && markerChunk.data.length >= 2) {
+    const view = chunkView(markerChunk)
+    let offset = 2
+
+    for (let i = 0; i < view.getUint16(0) && offset + 7 <= markerChunk.data.length; i++) {
+      const id = view.getInt16(offset)
+      const position = view.getUint32(offset + 2)
+      const nameLength = view.getUint8(offset + 6)
+      const label = readText(markerChunk.data.subarray(offset + 7, offset + 7 + nameLength))
+
+      markers.set(id, label ? { position, label } : { position })
+      offset += 7 + nameLength + ((nameLength + 1) % 2)
+    }
+  }
+
+  const loopMarkers = new Set<number>()
+  const instrument = findChunk(chunks, "INST")
+  if (instrument && instrument.data.length >= 14) {
+    const view = chunkView(instrument)
+    metadata.rootNote = view.getUint8(0)
+    metadata.fineTune = view.getInt8(1)
+    metadata.keyRange = { low: view.getUint8(2), high: view.getUint8(3) }
+    metadata.velocityRange = { low: view.getUint8(4), high: view.getUint8(5) }
+
+    const type = AIFF_LOOP_TYPES[view.getInt16(8)]
+    const start = markers.get(view.getInt16(10))
+    const end = markers.get(view.getInt16(12))
+    if (type && start && end && end.position > start.position) {
+      // AIFF loop ends are exclusive
+      metadata.loop = { start: start.position, end: end.position - 1, type }
+      loopMarkers.add(view.getInt16(10)).add(view.getInt16(12))
+    }
+  }
+
+  const cues = Array.from(markers.entries())
+    .filter(([id]) => !loopMarkers.has(id))
+    .map(([, cue]) => cue)
+  if (cues.length > 0) metadata.cues = cues
+
+  const tags: Record<string, string> = {}
+  for (const chunk of chunks) {
+    const text = AIFF_TEXT_TAGS[chunk.id] && readText(chunk.data)
+    if (text) tags[AIFF_TEXT_TAGS[chunk.id]] = text
+  }
+  if (Object.keys(tags).length > 0) metadata.tags = tags
+
+  return metadata
+}
+
+/**
+ * Lists the chunks of an AIFF/AIFC file, whose sizes are big-endian
+ */
+function readAIFFChunks(bytes: Uint8Array): WAVChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const chunks: WAVChunk[] = []
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4)
+    chunks.push({ id: fourCC(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + size) })
+    offset += 8 + size + (size % 2)
+  }
+
+  return chunks
+}
+
+function findChunk(chunks: WAVChunk[], id: string): WAVChunk | undefined {
+  return chunks.find((chunk) => chunk.id === id)
+}
+
+function chunkView(chunk: WAVChunk): DataView {
+  return new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength)
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4))
+}
+
+function readText(bytes: Uint8Array): string {
+  return new TextDecoder()
+    .decode(bytes)
+    .replace(/\0[\s\S]*$/, "")
+    .trim()
+}
@@ -1,6 +1,9 @@
 import type { Sample } from "../sample-manager"
 import SampleManager from "../sample-manager"
 import { SampleEditor } from "./sample-editor"
+import { sanitizeFilename, uniqueFilename } from "./mpc-filename"
+import { encodeWAV, type WAVEncodeOptions } from "./wav-encoder"
+import { createZip, type ZipEntry } from "./zip-writer"
 
 export interface BatchProcessingOptions {
   normalize?: boolean
@@ -173,8 +176,11 @@ export class BatchProcessor {
         // Create a sample editor for this sample
         const editor = new SampleEditor(sample.id)
 
-        // Detect loop points
+        // Detect loop points and keep them with the sample
         const points = await editor.detectLoopPoints()
+        if (points) {
+          await editor.save()
+        }
 
         loopPoints.set(sample.id, points)
       } catch (error) {
@@ -185,4 +191,32 @@ export class BatchProcessor {
 
     return loopPoints
   }
+
+  /**
+   * Encodes the current audio of multiple samples as WAV files in a ZIP archive
+   */
+  public exportSamples(samples: Sample[], options: WAVEncodeOptions = {}): Blob {
+    const used = new Set<string>()
+    const entries: ZipEntry[] = []
+
+    for (const sample of samples) {
+      // Read back from the manager so samples processed since the list was taken export their edits
+      const current = this.sampleManager.getSample(sample.id) || sample
+      if (!current.buffer) {
+        console.warn(`Sample "${sample.name}" has no audio data and was not exported`)
+        continue
+      }
+
+      entries.push({
+        path: uniqueFilename(sanitizeFilename(current.name, ".wav"), used),
+        data: encodeWAV(current.buffer, { metadata: current, ...options }),
+      })
+    }
+
+    if (entries.length === 0) {
+      throw new Error("None of the selected samples have audio data")
+    }
+
+    return createZip(entries)
+  }
 }
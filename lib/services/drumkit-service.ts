@@ -1,6 +1,12 @@
 import AudioContextManager from "../audio-context"
+import { EventEmitter } from "../event-emitter"
 import SampleManager, { type Sample } from "../sample-manager"
 import { XPMWriter } from "./xpm-writer"
+import { repairProgram } from "./xpm-repair"
+import { PackageExporter } from "./package-exporter"
+import type { XPMProgram } from "./xpm-program"
+import { serializeXPM, type XPMFormat } from "./xpm-serializer"
+import type { WAVEncodeOptions } from "./wav-encoder"
 
 export interface DrumKit {
   id: string
@@ -16,10 +22,26 @@ export interface DrumPad {
   label: string
 }
 
+export interface DrumKitServiceState {
+  kits: DrumKit[]
+  currentKitId?: string | null
+}
+
+export interface DrumKitServiceEvents {
+  kitAdded: DrumKit
+  kitChanged: DrumKit // renamed or pads assigned
+  kitDeleted: string // kit ID
+  currentKitChanged: DrumKit
+  stateReplaced: void // every kit replaced, e.g. by opening a project or undoing
+}
+
 export interface DrumKitExportOptions {
   name: string
   includePreview: boolean
   fixXPM: boolean
+  packageSamples?: boolean // export a ZIP with the samples instead of the XPM alone
+  audio?: WAVEncodeOptions // bit depth, sample rate and channels of the packaged WAVs
+  format?: XPMFormat
 }
 
 class DrumKitService {
@@ -27,6 +49,8 @@ class DrumKitService {
   private sampleManager: SampleManager
   private audioContext: AudioContextManager
   private drumKits: Map<string, DrumKit> = new Map()
+  private currentKitId: string | null = null
+  public readonly events = new EventEmitter<DrumKitServiceEvents>()
 
   // Bank configuration based on the Python code
   private readonly MAX_PADS_PER_BANK = 16
@@ -35,7 +59,7 @@ class DrumKitService {
   private constructor() {
     this.sampleManager = SampleManager.getInstance()
     this.audioContext = AudioContextManager.getInstance()
-    this.createDefaultKit()
+    this.createKit("Default Kit")
   }
 
   public static getInstance(): DrumKitService {
@@ -45,8 +69,11 @@ class DrumKitService {
     return DrumKitService.instance
   }
 
-  private createDefaultKit(): void {
-    const kitId = `kit_${Date.now()}`
+  /**
+   * Adds an empty kit with every bank of pads, making it the current kit when there was none
+   */
+  public createKit(name = "New Kit"): DrumKit {
+    const kitId = `kit_${Date.now()}_${Math.floor(Math.random() * 1000)}`
     const pads: DrumPad[] = []
 
     // Create pads for all banks
@@ -64,16 +91,111 @@ class DrumKitService {
 
     const kit: DrumKit = {
       id: kitId,
-      name: "Default Kit",
+      name,
       pads,
     }
 
     this.drumKits.set(kitId, kit)
+    this.events.emit("kitAdded", kit)
+    if (!this.currentKitId) {
+      this.currentKitId = kitId
+      this.events.emit("currentKitChanged", kit)
+    }
+    return kit
+  }
+
+  public exportState(): DrumKitServiceState {
+    return { kits: JSON.parse(JSON.stringify(this.getAllKits())), currentKitId: this.currentKitId }
   }
 
+  /**
+   * Replaces every kit, falling back to a new default kit when the state has none
+   */
+  public importState(state: DrumKitServiceState): void {
+    this.drumKits.clear()
+    this.currentKitId = null
+    for (const kit of state.kits) {
+      this.drumKits.set(kit.id, JSON.parse(JSON.stringify(kit)))
+    }
+
+    if (this.drumKits.size === 0) {
+      this.createKit("Default Kit")
+    } else if (!this.setCurrentKit(state.currentKitId || "")) {
+      this.currentKitId = state.kits[0].id
+    }
+
+    this.events.emit("stateReplaced")
+  }
+
+  public getAllKits(): DrumKit[] {
+    return Array.from(this.drumKits.values())
+  }
+
+  public getKit(kitId: string): DrumKit | undefined {
+    return this.drumKits.get(kitId)
+  }
+
+  /**
+   * The kit being edited, falling back to the first kit
+   */
   public getCurrentKit(): DrumKit {
-    // Return the first kit for now
-    return Array.from(this.drumKits.values())[0]
+    return (this.currentKitId && this.drumKits.get(this.currentKitId)) || this.getAllKits()[0]
+  }
+
+  public setCurrentKit(kitId: string): boolean {
+    const kit = this.drumKits.get(kitId)
+    if (!kit) return false
+
+    this.currentKitId = kitId
+    this.events.emit("currentKitChanged", kit)
+    return true
+  }
+
+  public renameKit(kitId: string, name: string): boolean {
+    const kit = this.drumKits.get(kitId)
+    if (!kit || !name.trim()) return false
+
+    kit.name = name.trim()
+    this.events.emit("kitChanged", kit)
+    return true
+  }
+
+  /**
+   * Copies a kit with its pad assignments, named "<name> Copy" unless a name is given
+   */
+  public duplicateKit(kitId: string, name?: string): DrumKit | null {
+    const kit = this.drumKits.get(kitId)
+    if (!kit) return null
+
+    const copy: DrumKit = {
+      ...JSON.parse(JSON.stringify(kit)),
+      id: `kit_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      name: name || `${kit.name} Copy`,
+    }
+
+    this.drumKits.set(copy.id, copy)
+    this.events.emit("kitAdded", copy)
+    return copy
+  }
+
+  /**
+   * Deletes a kit. The first remaining kit becomes current if it was, and deleting the last kit leaves an empty one.
+   */
+  public deleteKit(kitId: string): boolean {
+    if (!this.drumKits.delete(kitId)) return false
+    this.events.emit("kitDeleted", kitId)
+
+    if (this.currentKitId === kitId) {
+      this.currentKitId = null
+    }
+
+    if (this.drumKits.size === 0) {
+      this.createKit("Default Kit")
+    } else if (!this.currentKitId) {
+      this.setCurrentKit(this.getAllKits()[0].id)
+    }
+
+    return true
   }
 
   public assignSampleToPad(kitId: string, padId: string, sampleId: string): boolean {
@@ -84,6 +206,7 @@ class DrumKitService {
     if (!pad) return false
 
     pad.sampleId = sampleId
+    this.events.emit("kitChanged", kit)
     return true
   }
 
@@ -113,10 +236,16 @@ class DrumKitService {
       assignedCount++
     }
 
+    if (assignedCount > 0) {
+      this.events.emit("kitChanged", kit)
+    }
     return assignedCount
   }
 
-  public async exportKit(kitId: string, options: DrumKitExportOptions): Promise<Blob> {
+  /**
+   * Builds the program model for a kit, named after the kit unless a name is given
+   */
+  public buildProgram(kitId: string, name?: string): XPMProgram {
     const kit = this.drumKits.get(kitId)
     if (!kit) {
       throw new Error(`Kit with ID ${kitId} not found`)
@@ -131,12 +260,29 @@ class DrumKitService {
       }
     }
 
-    // Use the XPM writer to generate the XPM content
-    const writer = new XPMWriter(options.name, "drumkit")
-    const xpmContent = writer.createDrumKitXPM(options.name, padAssignments)
+    const programName = name || kit.name
+    return new XPMWriter(programName, "drumkit").buildDrumKitProgram(programName, padAssignments)
+  }
+
+  public async exportKit(kitId: string, options: DrumKitExportOptions): Promise<Blob> {
+    const program = this.buildProgram(kitId, options.name)
+
+    // If requested, run the repair rules over the generated program
+    if (options.fixXPM) {
+      const changes = repairProgram(program, { format: options.format })
+      if (changes.length > 0) {
+        console.warn("XPM repairs applied:", changes)
+      }
+    }
+
+    // Bundle the samples and preview with the program
+    if (options.packageSamples) {
+      const preview = options.includePreview ? await this.generatePreview(kitId) : null
+      return new PackageExporter(options.format, options.audio).exportPackage(program, preview)
+    }
 
     // Create a blob with the XPM content
-    return new Blob([xpmContent], { type: "text/plain" })
+    return new Blob([serializeXPM(program, options.format)], { type: "text/plain" })
   }
 
   public async generatePreview(kitId: string): Promise<AudioBuffer | null> {
@@ -0,0 +1,119 @@
+import DrumKitService from "./drumkit-service"
+import InstrumentService from "./instrument-service"
+import { PackageExporter, type PackagedProgram } from "./package-exporter"
+import { PreviewRenderer } from "./preview-renderer"
+import { sanitizeFilename } from "./mpc-filename"
+import type { WAVEncodeOptions } from "./wav-encoder"
+import { escapeXML } from "./xml-escape"
+import { collectSampleRefs, type XPMProgram } from "./xpm-program"
+import { createZip, type ZipEntry } from "./zip-writer"
+
+export interface ExpansionInfo {
+  title: string
+  manufacturer: string
+  version: string // four-part version, e.g. "1.0.0.0"
+  description: string
+  identifier?: string // reverse-DNS ID, derived from manufacturer and title when omitted
+}
+
+export interface ExpansionContent {
+  kitIds: string[]
+  instrumentIds: string[]
+  image?: File | null // cover artwork shown in the MPC browser
+}
+
+// Header values matching expansions built by MPC Software 2.x
+const EXPANSION_FORMAT_VERSION = "2.0.0.0"
+const EXPANSION_BUILD_VERSION = "2.10.0.0"
+
+export class ExpansionBuilder {
+  private drumKitService: DrumKitService
+  private instrumentService: InstrumentService
+  private previewRenderer: PreviewRenderer
+  private packageExporter: PackageExporter
+
+  constructor(audio: WAVEncodeOptions = {}) {
+    this.drumKitService = DrumKitService.getInstance()
+    this.instrumentService = InstrumentService.getInstance()
+    this.previewRenderer = new PreviewRenderer()
+    this.packageExporter = new PackageExporter("mpc", audio)
+  }
+
+  /**
+   * Builds an expansion folder with Expansion.xml, artwork, programs, samples and [Previews], zipped
+   */
+  public async buildExpansion(info: ExpansionInfo, content: ExpansionContent): Promise<Blob> {
+    if (content.kitIds.length === 0 && content.instrumentIds.length === 0) {
+      throw new Error("An expansion needs at least one drum kit or instrument")
+    }
+
+    const programs: PackagedProgram[] = []
+
+    for (const kitId of content.kitIds) {
+      const program = this.drumKitService.buildProgram(kitId)
+      programs.push({ program, preview: await this.renderPreview(program) })
+    }
+
+    for (const instrumentId of content.instrumentIds) {
+      const program = await this.instrumentService.buildProgram(instrumentId)
+      programs.push({ program, preview: await this.renderPreview(program) })
+    }
+
+    const root = `${sanitizeFilename(info.title)}/`
+    const imageFile = content.image ? sanitizeFilename(content.image.name) : null
+    const entries: ZipEntry[] = [
+      { path: `${root}Expansion.xml`, data: this.createExpansionXML(info, programs, imageFile) },
+    ]
+
+    if (content.image && imageFile) {
+      entries.push({ path: root + imageFile, data: await content.image.arrayBuffer() })
+    }
+
+    // MPC expansions keep samples next to the programs that use them
+    entries.push(...this.packageExporter.createEntries(programs, { root, sampleFolder: "" }))
+
+    return createZip(entries)
+  }
+
+  /**
+   * Writes the Expansion.xml descriptor read by the MPC expansion installer
+   */
+  public createExpansionXML(info: ExpansionInfo, programs: PackagedProgram[], imageFile: string | null): string {
+    const types = new Set(programs.map(({ program }) => program.type))
+    const type = types.size > 1 ? "mixed" : types.has("drumkit") ? "drum" : "keygroup"
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      "",
+      `<expansion version="${EXPANSION_FORMAT_VERSION}" buildVersion="${EXPANSION_BUILD_VERSION}">`,
+      "  <local/>",
+      `  <identifier>${escapeXML(info.identifier || this.createIdentifier(info))}</identifier>`,
+      `  <title>${escapeXML(info.title)}</title>`,
+      `  <manufacturer>${escapeXML(info.manufacturer)}</manufacturer>`,
+      `  <version>${escapeXML(info.version)}</version>`,
+      `  <type>${type}</type>`,
+      "  <priority>50</priority>",
+      `  <img>${imageFile ? escapeXML(imageFile) : ""}</img>`,
+      `  <description>${escapeXML(info.description)}</description>`,
+      "  <separator>-</separator>",
+      "</expansion>",
+    ]
+
+    return lines.join("\n")
+  }
+
+  private async renderPreview(program: XPMProgram): Promise<AudioBuffer | null> {
+    const sampleIds = collectSampleRefs(program)
+      .map((ref) => ref.sampleId)
+      .filter((id): id is string => !!id)
+
+    return program.type === "drumkit"
+      ? this.previewRenderer.renderDrumkitPreview(sampleIds)
+      : this.previewRenderer.renderKeygroupPreview(sampleIds)
+  }
+
+  private createIdentifier(info: ExpansionInfo): string {
+    const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "") || "untitled"
+    return `com.${slug(info.manufacturer)}.${slug(info.title)}`
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Magnitude spectrum of a Hann-windowed frame starting at the offset, reading silence outside the data.
+ * The size must be a power of two, the result has size / 2 bins.
+ */
+export function magnitudeSpectrum(data: Float32Array, offset: number, size: number): Float32Array {
+  const real = new Float32Array(size)
+  const imag = new Float32Array(size)
+
+  for (let i = 0; i < size; i++) {
+    real[i] = (data[offset + i] || 0) * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1)))
+  }
+
+  fft(real, imag)
+
+  const magnitudes = new Float32Array(size / 2)
+  for (let i = 0; i < magnitudes.length; i++) {
+    magnitudes[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i])
+  }
+
+  return magnitudes
+}
+
+/**
+ * In-place iterative radix-2 FFT, the length must be a power of two
+ */
+export function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+
+    if (i < j) {
+      const tempReal = real[i]
+      const tempImag = imag[i]
+      real[i] = real[j]
+      imag[i] = imag[j]
+      real[j] = tempReal
+      imag[j] = tempImag
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k)
+        const sin = Math.sin(angle * k)
+        const evenIndex = start + k
+        const oddIndex = evenIndex + size / 2
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos
+
+        real[oddIndex] = real[evenIndex] - oddReal
+        imag[oddIndex] = imag[evenIndex] - oddImag
+        real[evenIndex] += oddReal
+        imag[evenIndex] += oddImag
+      }
+    }
+  }
+}
@@ -0,0 +1,187 @@
+// Reads the note, velocity and round-robin tags sample libraries encode in their filenames, e.g.
+// "Piano_Db3_v2_rr1.wav", "Strings C-1 mf.wav" or "Rhodes_060_vel100.wav"
+
+export type DynamicMarking = "ppp" | "pp" | "p" | "mp" | "mf" | "f" | "ff" | "fff"
+
+export interface FilenameTokens {
+  note: number | null // MIDI note, from a note name like C#3 or a marked MIDI number like _060_ or note60
+  velocityLayer: number | null // from tags like v3, vl3 or layer3
+  velocity: number | null // explicit MIDI velocity, from tags like vel100
+  dynamic: DynamicMarking | null // from markings like mf, or the words soft, medium and hard
+  roundRobin: number | null // from tags like rr2 or seq2
+}
+
+export interface FilenameTokenizerOptions {
+  middleCOctave?: 3 | 4 // octave number of MIDI note 60 in note names, defaults to 4 (C4 = 60)
+  templates?: string[] // naming templates tried in order before the built-in patterns
+}
+
+// Standard MIDI velocities for dynamic markings
+export const DYNAMIC_VELOCITIES: Record<DynamicMarking, number> = {
+  ppp: 16,
+  pp: 33,
+  p: 49,
+  mp: 64,
+  mf: 80,
+  f: 96,
+  ff: 112,
+  fff: 127,
+}
+
+const DYNAMIC_WORDS: Record<string, DynamicMarking> = { soft: "p", medium: "mf", med: "mf", hard: "f" }
+
+const PITCH_CLASSES: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 }
+const ACCIDENTALS: Record<string, number> = { "#": 1, "♯": 1, s: 1, b: -1, "♭": -1 }
+
+// Tags must start a word so letters inside other words are not read as notes or markings
+const NOTE_PATTERN = /(?:^|[^a-z])([a-g])(#|♯|s|b|♭)?(-?\d)(?!\d)/i
+// Only zero-padded or prefixed numbers, so take and index numbers like "Piano_01" are left to pitch detection
+const MIDI_NUMBER_PATTERN = /(?:^|[^a-z0-9])(?:(?:note|midi|n)[ _-]?(\d{1,3})|(0\d{2}))(?![a-z0-9])/i
+const VELOCITY_PATTERN = /(?:^|[^a-z])vel(?:ocity)?[ _-]?(\d{1,3})(?!\d)/i
+const VELOCITY_LAYER_PATTERN = /(?:^|[^a-z])(?:v|vl|layer|lyr)[ _-]?(\d{1,2})(?!\d)/i
+const ROUND_ROBIN_PATTERN = /(?:^|[^a-z])(?:rr|round[ _-]?robin|seq)[ _-]?(\d{1,2})(?!\d)/i
+const DYNAMIC_PATTERN = /(?:^|[^a-z0-9])(ppp|pp|p|mp|mf|fff|ff|f|soft|medium|med|hard)(?![a-z0-9#])/i
+
+// Template placeholders and the text each one matches
+const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  note: "([a-g](?:#|♯|s|b|♭)?-?\\d)",
+  midi: "(\\d{1,3})",
+  layer: "(\\d{1,2})",
+  velocity: "(\\d{1,3})",
+  dynamic: "(ppp|pp|p|mp|mf|fff|ff|f|soft|medium|med|hard)",
+  rr: "(\\d{1,2})",
+  "*": "(.*?)",
+}
+
+let defaultOptions: FilenameTokenizerOptions = {}
+const compiledTemplates = new Map<string, { pattern: RegExp; fields: string[] }>()
+
+export function getFilenameTokenizerOptions(): FilenameTokenizerOptions {
+  return defaultOptions
+}
+
+/**
+ * Sets the octave convention and templates used wherever a filename is interpreted without explicit options
+ */
+export function setFilenameTokenizerOptions(options: FilenameTokenizerOptions): void {
+  for (const template of options.templates || []) {
+    compileTemplate(template)
+  }
+  defaultOptions = options
+}
+
+/**
+ * Extracts note, velocity, dynamic and round-robin tags from a filename. Templates describe the whole name
+ * without its extension using the placeholders {note}, {midi}, {layer}, {velocity}, {dynamic}, {rr} and {*},
+ * e.g. "{*}_{note}_v{layer}_rr{rr}". Tags a matching template leaves out fall back to the built-in patterns.
+ */
+export function tokenizeFilename(
+  filename: string,
+  options: FilenameTokenizerOptions = defaultOptions,
+): FilenameTokens {
+  const name = filename.replace(/^.*[\\/]/, "").replace(/\.[a-z0-9]{1,5}$/i, "")
+  const middleCOctave = options.middleCOctave ?? 4
+  const tokens = parseBuiltIn(name, middleCOctave)
+
+  for (const template of options.templates || []) {
+    const { pattern, fields } = compileTemplate(template)
+    const match = pattern.exec(name)
+    if (!match) continue
+
+    fields.forEach((field, index) => {
+      const value = match[index + 1]
+      const number = Number.parseInt(value, 10)
+
+      if (field === "note") tokens.note = noteNameToMidi(value, middleCOctave)
+      if (field === "midi" && number <= 127) tokens.note = number
+      if (field === "layer") tokens.velocityLayer = number
+      if (field === "velocity" && number <= 127) tokens.velocity = number
+      if (field === "dynamic") tokens.dynamic = parseDynamic(value)
+      if (field === "rr") tokens.roundRobin = number
+    })
+    break
+  }
+
+  return tokens
+}
+
+/**
+ * Converts a note name such as C#3, Db3, DB3 or C-1 to a MIDI note, or null when it is not a note in range
+ */
+export function noteNameToMidi(
+  noteName: string,
+  middleCOctave: 3 | 4 = defaultOptions.middleCOctave ?? 4,
+): number | null {
+  const match = /^([a-g])(#|♯|s|b|♭)?(-?\d)$/i.exec(noteName.trim())
+  if (!match) return null
+
+  const pitchClass = PITCH_CLASSES[match[1].toLowerCase()] + (match[2] ? ACCIDENTALS[match[2].toLowerCase()] : 0)
+  const midiNote = (Number.parseInt(match[3], 10) + 5 - middleCOctave) * 12 + pitchClass
+
+  return midiNote >= 0 && midiNote <= 127 ? midiNote : null
+}
+
+/**
+ * The velocity a filename asks for: an explicit velocity, otherwise its dynamic marking
+ */
+export function velocityFromTokens(tokens: FilenameTokens): number | null {
+  if (tokens.velocity !== null) return tokens.velocity
+  return tokens.dynamic ? DYNAMIC_VELOCITIES[tokens.dynamic] : null
+}
+
+function parseBuiltIn(name: string, middleCOctave: 3 | 4): FilenameTokens {
+  const noteMatch = NOTE_PATTERN.exec(name)
+  let note = noteMatch ? noteNameToMidi(noteMatch.slice(1).join(""), middleCOctave) : null
+
+  // Libraries without note names often number their samples by MIDI note instead
+  if (note === null) {
+    const midiMatch = MIDI_NUMBER_PATTERN.exec(name)
+    const midiNote = midiMatch ? Number.parseInt(midiMatch[1] ?? midiMatch[2], 10) : NaN
+    if (midiNote <= 127) note = midiNote
+  }
+
+  const velocityMatch = VELOCITY_PATTERN.exec(name)
+  const velocity = velocityMatch ? Number.parseInt(velocityMatch[1], 10) : NaN
+  const layerMatch = VELOCITY_LAYER_PATTERN.exec(name)
+  const roundRobinMatch = ROUND_ROBIN_PATTERN.exec(name)
+  const dynamicMatch = DYNAMIC_PATTERN.exec(name)
+
+  return {
+    note,
+    velocityLayer: layerMatch ? Number.parseInt(layerMatch[1], 10) : null,
+    velocity: velocity <= 127 ? velocity : null,
+    dynamic: dynamicMatch ? parseDynamic(dynamicMatch[1]) : null,
+    roundRobin: roundRobinMatch ? Number.parseInt(roundRobinMatch[1], 10) : null,
+  }
+}
+
+function parseDynamic(value: string): DynamicMarking {
+  const lower = value.toLowerCase()
+  return DYNAMIC_WORDS[lower] || (lower as DynamicMarking)
+}
+
+function compileTemplate(template: string): { pattern: RegExp; fields: string[] } {
+  const cached = compiledTemplates.get(template)
+  if (cached) return cached
+
+  const fields: string[] = []
+  const source = template
+    .split(/(\{[a-z*]+\})/i)
+    .map((part) => {
+      const placeholder = /^\{([a-z*]+)\}$/i.exec(part)
+      if (!placeholder) return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+      const field = placeholder[1].toLowerCase()
+      if (!TEMPLATE_PLACEHOLDERS[field]) {
+        throw new Error(`Unknown placeholder {${placeholder[1]}} in filename template "${template}"`)
+      }
+
+      fields.push(field)
+      return TEMPLATE_PLACEHOLDERS[field]
+    })
+    .join("")
+
+  const compiled = { pattern: new RegExp(`^${source}$`, "i"), fields }
+  compiledTemplates.set(template, compiled)
+  return compiled
+}
@@ -0,0 +1,249 @@
+import SampleManager, { type SampleManagerState } from "../sample-manager"
+import Sequencer, { type SequencerState } from "../sequencer"
+import DrumKitService, { type DrumKitServiceState } from "./drumkit-service"
+import InstrumentService, { type InstrumentServiceState } from "./instrument-service"
+
+// Undo history for samples, pad assignments, kits, instruments and patterns. Every entry keeps the state before and
+// after a change; audio buffers are shared between states rather than copied, as edits replace a sample's buffer.
+
+export interface WorkspaceState {
+  samples: SampleManagerState
+  drumKits: DrumKitServiceState
+  instruments: InstrumentServiceState
+  sequencer: SequencerState
+}
+
+export interface HistoryEntry {
+  id: string
+  label: string
+  before: WorkspaceState
+  after: WorkspaceState
+}
+
+const MAX_HISTORY = 100
+
+// Label for changes made without going through the history, recorded when the next change or undo comes
+const UNRECORDED_LABEL = "Other changes"
+
+// Changes with the same merge key this close together become one entry, e.g. while dragging a slider
+const MERGE_WINDOW = 1000 // milliseconds
+
+class HistoryService {
+  private static instance: HistoryService
+  private undoStack: HistoryEntry[] = []
+  private redoStack: HistoryEntry[] = []
+  private current: WorkspaceState | null = null // state after the last change the history knows of
+  private listeners: Set<() => void> = new Set()
+  private lastMerge: { key: string; entryId: string; time: number } | null = null
+
+  public static getInstance(): HistoryService {
+    if (!HistoryService.instance) {
+      HistoryService.instance = new HistoryService()
+    }
+    return HistoryService.instance
+  }
+
+  /**
+   * Runs a change and records it as one undoable step, unless it changed nothing. Changes given the same merge key
+   * in quick succession are folded into the last entry, which takes the latest label.
+   */
+  public execute<T>(label: string, action: () => T, mergeKey?: string): T {
+    this.recordUnrecorded()
+    const before = this.current || captureState()
+    const result = action()
+    this.record(label, before, mergeKey)
+    return result
+  }
+
+  public async executeAsync<T>(label: string, action: () => Promise<T>): Promise<T> {
+    this.recordUnrecorded()
+    const before = this.current || captureState()
+    try {
+      return await action()
+    } finally {
+      this.record(label, before)
+    }
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0 || this.hasUnrecordedChanges()
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  /**
+   * Undoable entries, most recent first
+   */
+  public getUndoEntries(): HistoryEntry[] {
+    return this.undoStack.slice().reverse()
+  }
+
+  /**
+   * Redoable entries, next first
+   */
+  public getRedoEntries(): HistoryEntry[] {
+    return this.redoStack.slice().reverse()
+  }
+
+  public undo(): boolean {
+    this.recordUnrecorded()
+
+    const entry = this.undoStack.pop()
+    if (!entry) return false
+
+    this.redoStack.push(entry)
+    this.restore(entry.before)
+    return true
+  }
+
+  public redo(): boolean {
+    if (this.hasUnrecordedChanges()) {
+      // Redoing over changes made since the undo would lose them
+      this.recordUnrecorded()
+      return false
+    }
+
+    const entry = this.redoStack.pop()
+    if (!entry) return false
+
+    this.undoStack.push(entry)
+    this.restore(entry.after)
+    return true
+  }
+
+  /**
+   * Undoes every entry back to and including the one with the ID
+   */
+  public undoTo(entryId: string): boolean {
+    if (!this.undoStack.some((entry) => entry.id === entryId)) return false
+
+    while (this.undoStack.length > 0 && this.redoStack[this.redoStack.length - 1]?.id !== entryId) {
+      this.undo()
+    }
+    return true
+  }
+
+  /**
+   * Forgets every entry and takes the current state as the starting point, e.g. after opening a project
+   */
+  public clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+    this.current = captureState()
+    this.notify()
+  }
+
+  /**
+   * Calls the listener whenever the history or the state it restores changes. Returns an unsubscribe function.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private record(label: string, before: WorkspaceState, mergeKey?: string): void {
+    const after = captureState()
+    this.current = after
+
+    const last = this.undoStack[this.undoStack.length - 1]
+    const merge = this.lastMerge
+    if (
+      mergeKey &&
+      last &&
+      merge &&
+      merge.key === mergeKey &&
+      merge.entryId === last.id &&
+      Date.now() - merge.time < MERGE_WINDOW
+    ) {
+      last.label = label
+      last.after = after
+      merge.time = Date.now()
+
+      // Dragging back to where the change started leaves nothing to undo
+      if (describeState(last.before) === describeState(after)) {
+        this.undoStack.pop()
+        this.lastMerge = null
+      }
+      this.notify()
+      return
+    }
+
+    if (describeState(before) === describeState(after)) return
+
+    const entry = { id: `history_${Date.now()}_${Math.floor(Math.random() * 1000)}`, label, before, after }
+    this.undoStack.push(entry)
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift()
+    }
+    this.redoStack = []
+    this.lastMerge = mergeKey ? { key: mergeKey, entryId: entry.id, time: Date.now() } : null
+    this.notify()
+  }
+
+  private hasUnrecordedChanges(): boolean {
+    return this.current !== null && describeState(this.current) !== describeState(captureState())
+  }
+
+  /**
+   * Turns changes made around the history into an entry of their own, so undoing never silently discards them
+   */
+  private recordUnrecorded(): void {
+    if (this.current && this.hasUnrecordedChanges()) {
+      this.record(UNRECORDED_LABEL, this.current)
+    }
+  }
+
+  private restore(state: WorkspaceState): void {
+    const drumKitService = DrumKitService.getInstance()
+    const instrumentService = InstrumentService.getInstance()
+    const kitId = drumKitService.getCurrentKit().id
+    const instrumentId = instrumentService.getCurrentInstrument().id
+
+    // Selections are not part of the history, so the current ones are kept while they still exist
+    SampleManager.getInstance().importState(state.samples)
+    drumKitService.importState({
+      ...state.drumKits,
+      currentKitId: state.drumKits.kits.some((kit) => kit.id === kitId) ? kitId : state.drumKits.currentKitId,
+    })
+    instrumentService.importState({
+      ...state.instruments,
+      currentInstrumentId: state.instruments.instruments.some((instrument) => instrument.id === instrumentId)
+        ? instrumentId
+        : state.instruments.currentInstrumentId,
+    })
+    Sequencer.getInstance().importState(state.sequencer)
+
+    this.current = captureState()
+    this.lastMerge = null
+    this.notify()
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+function captureState(): WorkspaceState {
+  return {
+    samples: SampleManager.getInstance().exportState(),
+    drumKits: DrumKitService.getInstance().exportState(),
+    instruments: InstrumentService.getInstance().exportState(),
+    sequencer: Sequencer.getInstance().exportState(),
+  }
+}
+
+// Left out when comparing states: audio, and the kit and instrument selections, which are not undoable changes
+const IGNORED_KEYS = new Set(["buffer", "originalBuffer", "currentKitId", "currentInstrumentId"])
+
+/**
+ * The state without its audio and selections, to compare states
+ */
+function describeState(state: WorkspaceState): string {
+  return JSON.stringify(state, (key, value) => (IGNORED_KEYS.has(key) ? undefined : value))
+}
+
+export default HistoryService
@@ -1,9 +1,16 @@
 import { detectPitch } from "./pitch-detection"
-import { autoMapSamples } from "./sample-mapper"
+import { autoMapSamples, type MappedSample } from "./sample-mapper"
 import { XPMWriter } from "./xpm-writer"
 import { MultiLayerExporter } from "./multi-layer-exporter"
 import { validateInstrument } from "./instrument-validator"
+import { repairProgram } from "./xpm-repair"
+import { PackageExporter } from "./package-exporter"
+import type { XPMProgram } from "./xpm-program"
+import { serializeXPM, type XPMFormat } from "./xpm-serializer"
+import { calculateKeyRanges, type KeyGap, type KeyRangeStrategy } from "./key-ranges"
+import type { WAVEncodeOptions } from "./wav-encoder"
 import AudioContextManager from "../audio-context"
+import { EventEmitter } from "../event-emitter"
 import SampleManager from "../sample-manager"
 
 export interface Instrument {
@@ -12,11 +19,15 @@ export interface Instrument {
   keygroups: Keygroup[]
 }
 
+// How the samples of a velocity layer take turns: in order, or picked at random
+export type RoundRobinMode = "cycle" | "random"
+
 export interface Keygroup {
   id: string
   lowNote: number
   highNote: number
   rootNote: number
+  roundRobinMode?: RoundRobinMode // defaults to cycle
   velocityLayers: VelocityLayer[]
 }
 
@@ -25,6 +36,31 @@ export interface VelocityLayer {
   lowVelocity: number
   highVelocity: number
   sampleId: string | null
+  fineTune?: number // cents the sample is sharp (+) or flat (-) of the keygroup's root note
+  roundRobins?: RoundRobinSample[] // further samples that take turns with the layer's own sample
+}
+
+export interface RoundRobinSample {
+  sampleId: string
+  fineTune?: number
+}
+
+export interface AutoMapOptions {
+  velocityLayers?: boolean // split samples sharing a note into velocity layers by their filenames, defaults to true
+  keyRange?: KeyRangeStrategy // how the keygroups are spread across the keys, defaults to midpoint
+}
+
+export interface InstrumentServiceState {
+  instruments: Instrument[]
+  currentInstrumentId?: string | null
+}
+
+export interface InstrumentServiceEvents {
+  instrumentAdded: Instrument
+  instrumentChanged: Instrument // renamed, or its keygroups, velocity layers or round robins changed
+  instrumentDeleted: string // instrument ID
+  currentInstrumentChanged: Instrument
+  stateReplaced: void // every instrument replaced, e.g. by opening a project or undoing
 }
 
 export interface InstrumentExportOptions {
@@ -32,6 +68,18 @@ export interface InstrumentExportOptions {
   includePreview: boolean
   fixXPM: boolean
   useMultiLayerExport?: boolean
+  packageSamples?: boolean // export a ZIP with the samples instead of the XPM alone
+  audio?: WAVEncodeOptions // bit depth, sample rate and channels of the packaged WAVs
+  retuneSamples?: boolean // resample packaged audio to pitch instead of correcting it with the layer fine tune
+  format?: XPMFormat
+}
+
+/**
+ * The samples of a velocity layer in the order they take turns: the layer's own sample, then its round robins
+ */
+export function layerSamples(layer: VelocityLayer): RoundRobinSample[] {
+  const samples: RoundRobinSample[] = layer.sampleId ? [{ sampleId: layer.sampleId, fineTune: layer.fineTune }] : []
+  return [...samples, ...(layer.roundRobins || [])]
 }
 
 class InstrumentService {
@@ -39,11 +87,14 @@ class InstrumentService {
   private sampleManager: SampleManager
   private audioContext: AudioContextManager
   private instruments: Map<string, Instrument> = new Map()
+  private currentInstrumentId: string | null = null
+  private roundRobinPositions: Map<string, number> = new Map() // "instrument/layer" ID -> next sample to cycle to
+  public readonly events = new EventEmitter<InstrumentServiceEvents>()
 
   private constructor() {
     this.sampleManager = SampleManager.getInstance()
     this.audioContext = AudioContextManager.getInstance()
-    this.createDefaultInstrument()
+    this.createInstrument("Default Instrument")
   }
 
   public static getInstance(): InstrumentService {
@@ -53,8 +104,11 @@ class InstrumentService {
     return InstrumentService.instance
   }
 
-  private createDefaultInstrument(): void {
-    const instrumentId = `instrument_${Date.now()}`
+  /**
+   * Adds an instrument with one empty keygroup, making it the current instrument when there was none
+   */
+  public createInstrument(name = "New Instrument"): Instrument {
+    const instrumentId = `instrument_${Date.now()}_${Math.floor(Math.random() * 1000)}`
 
     // Create a default keygroup spanning the entire MIDI range
     const keygroups: Keygroup[] = [
@@ -76,16 +130,116 @@ class InstrumentService {
 
     const instrument: Instrument = {
       id: instrumentId,
-      name: "Default Instrument",
+      name,
       keygroups,
     }
 
     this.instruments.set(instrumentId, instrument)
+    this.events.emit("instrumentAdded", instrument)
+    if (!this.currentInstrumentId) {
+      this.currentInstrumentId = instrumentId
+      this.events.emit("currentInstrumentChanged", instrument)
+    }
+    return instrument
+  }
+
+  public exportState(): InstrumentServiceState {
+    return {
+      instruments: JSON.parse(JSON.stringify(this.getAllInstruments())),
+      currentInstrumentId: this.currentInstrumentId,
+    }
+  }
+
+  /**
+   * Replaces every instrument, falling back to a new default instrument when the state has none
+   */
+  public importState(state: InstrumentServiceState): void {
+    this.instruments.clear()
+    this.currentInstrumentId = null
+    this.roundRobinPositions.clear()
+    for (const instrument of state.instruments) {
+      this.instruments.set(instrument.id, JSON.parse(JSON.stringify(instrument)))
+    }
+
+    if (this.instruments.size === 0) {
+      this.createInstrument("Default Instrument")
+    } else if (!this.setCurrentInstrument(state.currentInstrumentId || "")) {
+      this.currentInstrumentId = state.instruments[0].id
+    }
+
+    this.events.emit("stateReplaced")
   }
 
+  public getAllInstruments(): Instrument[] {
+    return Array.from(this.instruments.values())
+  }
+
+  public getInstrument(instrumentId: string): Instrument | undefined {
+    return this.instruments.get(instrumentId)
+  }
+
+  /**
+   * The instrument being edited, falling back to the first instrument
+   */
   public getCurrentInstrument(): Instrument {
-    // Return the first instrument for now
-    return Array.from(this.instruments.values())[0]
+    return (this.currentInstrumentId && this.instruments.get(this.currentInstrumentId)) || this.getAllInstruments()[0]
+  }
+
+  public setCurrentInstrument(instrumentId: string): boolean {
+    const instrument = this.instruments.get(instrumentId)
+    if (!instrument) return false
+
+    this.currentInstrumentId = instrumentId
+    this.events.emit("currentInstrumentChanged", instrument)
+    return true
+  }
+
+  public renameInstrument(instrumentId: string, name: string): boolean {
+    const instrument = this.instruments.get(instrumentId)
+    if (!instrument || !name.trim()) return false
+
+    instrument.name = name.trim()
+    this.events.emit("instrumentChanged", instrument)
+    return true
+  }
+
+  /**
+   * Copies an instrument with its keygroups and layers, named "<name> Copy" unless a name is given
+   */
+  public duplicateInstrument(instrumentId: string, name?: string): Instrument | null {
+    const instrument = this.instruments.get(instrumentId)
+    if (!instrument) return null
+
+    const copy: Instrument = {
+      ...JSON.parse(JSON.stringify(instrument)),
+      id: `instrument_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+      name: name || `${instrument.name} Copy`,
+    }
+
+    this.instruments.set(copy.id, copy)
+    this.events.emit("instrumentAdded", copy)
+    return copy
+  }
+
+  /**
+   * Deletes an instrument. The first remaining instrument becomes current if it was, and deleting the last
+   * instrument leaves an empty one.
+   */
+  public deleteInstrument(instrumentId: string): boolean {
+    if (!this.instruments.delete(instrumentId)) return false
+    this.events.emit("instrumentDeleted", instrumentId)
+
+    if (this.currentInstrumentId === instrumentId) {
+      this.currentInstrumentId = null
+    }
+
+    if (this.instruments.size === 0) {
+      this.createInstrument("Default Instrument")
+    } else if (!this.currentInstrumentId) {
+      this.setCurrentInstrument(this.getAllInstruments()[0].id)
+    }
+
+    return true
   }
 
   public async assignSampleToKeygroup(
@@ -104,130 +258,167 @@ class InstrumentService {
     if (!velocityLayer) return false
 
     velocityLayer.sampleId = sampleId
+    velocityLayer.fineTune = 0
 
-    // Analyze sample to update root note if possible
+    // Use the root note embedded in the file, otherwise analyze the sample
     const sample = this.sampleManager.getSample(sampleId)
-    if (sample && sample.buffer) {
+    if (sample && sample.rootNote !== undefined) {
+      keygroup.rootNote = sample.rootNote
+      velocityLayer.fineTune = sample.fineTune || 0
+    } else if (sample && sample.buffer) {
       try {
         const pitchInfo = await detectPitch(sample.buffer)
         if (pitchInfo) {
           keygroup.rootNote = pitchInfo.midiNote
+          velocityLayer.fineTune = pitchInfo.cents
+          this.sampleManager.updateSample({ ...sample, rootNote: pitchInfo.midiNote, fineTune: pitchInfo.cents })
         }
       } catch (error) {
         console.error("Failed to detect pitch:", error)
       }
     }
 
+    this.events.emit("instrumentChanged", instrument)
     return true
   }
 
-  public async autoMapSamples(instrumentId: string, sampleIds: string[]): Promise<number> {
+  /**
+   * Maps samples onto one keygroup per note. Samples sharing a note become velocity layers, and samples
+   * sharing a note and a velocity layer take turns as round robins in the order of their filename index.
+   */
+  public async autoMapSamples(
+    instrumentId: string,
+    sampleIds: string[],
+    options: AutoMapOptions = {},
+  ): Promise<number> {
     const instrument = this.instruments.get(instrumentId)
     if (!instrument) return 0
 
-    let assignedCount = 0
-
     // Use the enhanced auto-mapping functionality
     const mappedSamples = await autoMapSamples(sampleIds)
 
     if (mappedSamples.length === 0) return 0
 
-    // Sort samples by MIDI note
-    mappedSamples.sort((a, b) => a.midiNote - b.midiNote)
+    // Group samples by the note they were mapped to, lowest note first
+    const notes = new Map<number, MappedSample[]>()
+    for (const sample of mappedSamples) {
+      notes.set(sample.midiNote, [...(notes.get(sample.midiNote) || []), sample])
+    }
+    const { ranges, gaps } = calculateKeyRanges(Array.from(notes.keys()), options.keyRange)
+    if (gaps.length > 0) {
+      console.warn("Keys not covered by any keygroup:", gaps.map((gap) => `${gap.lowNote}-${gap.highNote}`))
+    }
 
-    // Create keygroups based on detected notes
     // Clear existing keygroups
     instrument.keygroups = []
+    this.roundRobinPositions.clear()
 
-    // Create a keygroup for each sample
-    for (let i = 0; i < mappedSamples.length; i++) {
-      const sample = mappedSamples[i]
-
-      // Calculate note range
-      let lowNote = sample.midiNote
-      let highNote = sample.midiNote
-
-      if (i > 0) {
-        // Extend range down to midpoint between this and previous note
-        lowNote = Math.floor((mappedSamples[i - 1].midiNote + sample.midiNote) / 2) + 1
-      } else {
-        // First sample extends down to 0
-        lowNote = 0
-      }
-
-      if (i < mappedSamples.length - 1) {
-        // Extend range up to midpoint between this and next note
-        highNote = Math.floor((sample.midiNote + mappedSamples[i + 1].midiNote) / 2)
-      } else {
-        // Last sample extends up to 127
-        highNote = 127
-      }
+    ranges.forEach(({ rootNote, lowNote, highNote }, i) => {
+      const zones = this.velocityZones(notes.get(rootNote) || [], options.velocityLayers !== false)
 
-      // Create keygroup
-      const keygroup: Keygroup = {
+      instrument.keygroups.push({
         id: `keygroup_${i}`,
         lowNote,
         highNote,
-        rootNote: sample.midiNote,
-        velocityLayers: [
-          {
-            id: `velocity_${i}_0`,
-            lowVelocity: 0,
-            highVelocity: 127,
-            sampleId: sample.id,
-          },
-        ],
-      }
+        rootNote,
+        roundRobinMode: "cycle",
+        velocityLayers: zones.map((zone, zoneIndex) => {
+          const [first, ...rest] = zone.sort((a, b) => (a.roundRobin ?? 0) - (b.roundRobin ?? 0))
+
+          return {
+            id: `velocity_${i}_${zoneIndex}`,
+            lowVelocity: Math.round((zoneIndex * 128) / zones.length),
+            highVelocity: Math.round(((zoneIndex + 1) * 128) / zones.length) - 1,
+            sampleId: first.id,
+            fineTune: first.fineTune,
+            roundRobins: rest.map((sample) => ({ sampleId: sample.id, fineTune: sample.fineTune })),
+          }
+        }),
+      })
+    })
 
-      instrument.keygroups.push(keygroup)
-      assignedCount++
+    this.events.emit("instrumentChanged", instrument)
+    return mappedSamples.length
+  }
+
+  /**
+   * Splits the samples of one note into velocity zones, softest first. Layer tags take precedence over
+   * velocities, and without either every sample lands in a single zone of round robins.
+   */
+  private velocityZones(samples: MappedSample[], splitVelocities: boolean): MappedSample[][] {
+    if (!splitVelocities) return [samples]
+
+    const byLayer = samples.some((sample) => sample.velocityLayer !== null)
+    const zones = new Map<number, MappedSample[]>()
+
+    for (const sample of samples) {
+      const key = byLayer ? (sample.velocityLayer ?? 0) : sample.velocity
+      zones.set(key, [...(zones.get(key) || []), sample])
     }
 
-    return assignedCount
+    return Array.from(zones.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, zone]) => zone)
   }
 
-  public async exportInstrument(instrumentId: string, options: InstrumentExportOptions): Promise<Blob> {
+  /**
+   * Builds the program model for an instrument, named after the instrument unless a name is given
+   */
+  public async buildProgram(
+    instrumentId: string,
+    options: { name?: string; useMultiLayerExport?: boolean } = {},
+  ): Promise<XPMProgram> {
     const instrument = this.instruments.get(instrumentId)
     if (!instrument) {
       throw new Error(`Instrument with ID ${instrumentId} not found`)
     }
 
-    let xpmContent: string
+    const programName = options.name || instrument.name
 
     if (options.useMultiLayerExport) {
       // Use the multi-layer exporter for more advanced XPM generation
-      const exporter = new MultiLayerExporter(options.name)
+      const exporter = new MultiLayerExporter(programName)
 
       // Collect all sample IDs from the instrument
       const sampleIds: string[] = []
       for (const keygroup of instrument.keygroups) {
         for (const layer of keygroup.velocityLayers) {
-          if (layer.sampleId) {
-            sampleIds.push(layer.sampleId)
-          }
+          sampleIds.push(...layerSamples(layer).map((sample) => sample.sampleId))
         }
       }
 
-      xpmContent = await exporter.processAndExport(sampleIds)
-    } else {
-      // Use the standard XPM writer
-      const writer = new XPMWriter(options.name)
-      xpmContent = writer.createXPM(instrument)
+      return exporter.buildProgram(sampleIds)
     }
 
+    // Use the standard XPM writer
+    return new XPMWriter(programName, "instrument").buildInstrumentProgram(instrument)
+  }
+
+  public async exportInstrument(instrumentId: string, options: InstrumentExportOptions): Promise<Blob> {
+    const program = await this.buildProgram(instrumentId, options)
+
     // If requested, validate and fix the XPM
     if (options.fixXPM) {
-      // In a real implementation, this would call the backend
-      // For now, we'll just validate the instrument
       const validationReport = await validateInstrument(instrumentId)
 
       if (validationReport.status === "invalid") {
         console.warn("Instrument validation issues:", validationReport.issues)
       }
+
+      const changes = repairProgram(program, { format: options.format })
+      if (changes.length > 0) {
+        console.warn("XPM repairs applied:", changes)
+      }
+    }
+
+    // Bundle the samples and preview with the program
+    if (options.packageSamples) {
+      const preview = options.includePreview ? await this.generatePreview(instrumentId) : null
+      return new PackageExporter(options.format, options.audio, options.retuneSamples).exportPackage(program, preview)
     }
 
     // Create a blob with the XPM content
-    return new Blob([xpmContent], { type: "text/plain" })
+    return new Blob([serializeXPM(program, options.format)], { type: "text/plain" })
   }
 
   public async generatePreview(instrumentId: string): Promise<AudioBuffer | null> {
@@ -298,6 +489,28 @@ class InstrumentService {
     }
   }
 
+  /**
+   * Re-spreads the instrument's keygroups across the keys from their root notes, returning the keys left uncovered
+   */
+  public applyKeyRanges(instrumentId: string, strategy: KeyRangeStrategy): KeyGap[] {
+    const instrument = this.instruments.get(instrumentId)
+    if (!instrument) return []
+
+    const { ranges, gaps } = calculateKeyRanges(instrument.keygroups.map((keygroup) => keygroup.rootNote), strategy)
+
+    // Keygroups sharing a root note share its range
+    for (const keygroup of instrument.keygroups) {
+      const range = ranges.find((r) => r.rootNote === keygroup.rootNote)
+      if (!range) continue
+
+      keygroup.lowNote = range.lowNote
+      keygroup.highNote = range.highNote
+    }
+
+    this.events.emit("instrumentChanged", instrument)
+    return gaps
+  }
+
   public addKeygroup(instrumentId: string, lowNote: number, highNote: number, rootNote: number): string | null {
     const instrument = this.instruments.get(instrumentId)
     if (!instrument) return null
@@ -320,6 +533,7 @@ class InstrumentService {
     }
 
     instrument.keygroups.push(keygroup)
+    this.events.emit("instrumentChanged", instrument)
     return keygroupId
   }
 
@@ -345,9 +559,114 @@ class InstrumentService {
     }
 
     keygroup.velocityLayers.push(velocityLayer)
+    this.events.emit("instrumentChanged", instrument)
     return layerId
   }
 
+  public addRoundRobin(instrumentId: string, keygroupId: string, velocityLayerId: string, sampleId: string): boolean {
+    const velocityLayer = this.findVelocityLayer(instrumentId, keygroupId, velocityLayerId)
+    if (!velocityLayer) return false
+
+    const sample = this.sampleManager.getSample(sampleId)
+    const fineTune = sample?.fineTune || 0
+
+    // An empty layer takes the sample as its own before it gains alternates
+    if (!velocityLayer.sampleId) {
+      velocityLayer.sampleId = sampleId
+      velocityLayer.fineTune = fineTune
+    } else {
+      velocityLayer.roundRobins = [...(velocityLayer.roundRobins || []), { sampleId, fineTune }]
+    }
+
+    this.emitInstrumentChanged(instrumentId)
+    return true
+  }
+
+  /**
+   * Removes a sample from a velocity layer, promoting the next round robin when it was the layer's own sample
+   */
+  public removeRoundRobin(
+    instrumentId: string,
+    keygroupId: string,
+    velocityLayerId: string,
+    sampleId: string,
+  ): boolean {
+    const velocityLayer = this.findVelocityLayer(instrumentId, keygroupId, velocityLayerId)
+    if (!velocityLayer) return false
+
+    const roundRobins = velocityLayer.roundRobins || []
+
+    if (velocityLayer.sampleId === sampleId) {
+      const [next, ...rest] = roundRobins
+      velocityLayer.sampleId = next ? next.sampleId : null
+      velocityLayer.fineTune = next ? next.fineTune : 0
+      velocityLayer.roundRobins = rest
+    } else {
+      const index = roundRobins.findIndex((roundRobin) => roundRobin.sampleId === sampleId)
+      if (index < 0) return false
+      velocityLayer.roundRobins = roundRobins.filter((_, i) => i !== index)
+    }
+
+    this.roundRobinPositions.delete(`${instrumentId}/${velocityLayer.id}`)
+    this.emitInstrumentChanged(instrumentId)
+    return true
+  }
+
+  public setRoundRobinMode(instrumentId: string, keygroupId: string, mode: RoundRobinMode): boolean {
+    const keygroup = this.instruments.get(instrumentId)?.keygroups.find((kg) => kg.id === keygroupId)
+    if (!keygroup) return false
+
+    keygroup.roundRobinMode = mode
+    this.emitInstrumentChanged(instrumentId)
+    return true
+  }
+
+  /**
+   * Plays a note the way the MPC would: the keygroup and velocity layer covering it pick their next round robin,
+   * which is pitched from the keygroup's root note. Returns the ID of the sample played, or null if none covers it.
+   */
+  public playNote(instrumentId: string, note: number, velocity = 127): string | null {
+    const keygroup = this.instruments
+      .get(instrumentId)
+      ?.keygroups.find((kg) => note >= kg.lowNote && note <= kg.highNote)
+    const velocityLayer = keygroup?.velocityLayers.find(
+      (vl) => velocity >= vl.lowVelocity && velocity <= vl.highVelocity,
+    )
+    if (!keygroup || !velocityLayer) return null
+
+    const samples = layerSamples(velocityLayer)
+    if (samples.length === 0) return null
+
+    let index: number
+    if (keygroup.roundRobinMode === "random") {
+      index = Math.floor(Math.random() * samples.length)
+    } else {
+      const position = `${instrumentId}/${velocityLayer.id}`
+      index = (this.roundRobinPositions.get(position) ?? 0) % samples.length
+      this.roundRobinPositions.set(position, index + 1)
+    }
+
+    const { sampleId, fineTune } = samples[index]
+    this.audioContext.playSample(sampleId, {
+      volume: velocity / 127,
+      detune: (note - keygroup.rootNote) * 100 - (fineTune || 0),
+    })
+
+    return sampleId
+  }
+
+  private emitInstrumentChanged(instrumentId: string): void {
+    const instrument = this.instruments.get(instrumentId)
+    if (instrument) {
+      this.events.emit("instrumentChanged", instrument)
+    }
+  }
+
+  private findVelocityLayer(instrumentId: string, keygroupId: string, velocityLayerId: string): VelocityLayer | null {
+    const keygroup = this.instruments.get(instrumentId)?.keygroups.find((kg) => kg.id === keygroupId)
+    return keygroup?.velocityLayers.find((vl) => vl.id === velocityLayerId) || null
+  }
+
   public async validateInstrument(instrumentId: string) {
     return validateInstrument(instrumentId)
   }
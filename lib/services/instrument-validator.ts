@@ -1,4 +1,5 @@
 import { detectPitch } from "./pitch-detection"
+import { tokenizeFilename } from "./filename-tokenizer"
 import SampleManager from "../sample-manager"
 
 export interface ValidationReport {
@@ -58,8 +59,8 @@ export async function validateInstrument(instrumentId: string): Promise<Validati
         layer.rootKey = pitchInfo.midiNote
       } else {
         // Try to extract pitch from filename
-        const extractedPitch = extractPitchFromFilename(sample.name)
-        if (extractedPitch) {
+        const extractedPitch = tokenizeFilename(sample.name).note
+        if (extractedPitch !== null) {
           layer.rootKey = extractedPitch
         } else {
           report.issues.push(`Pitch not detected in: ${sample.name}`)
@@ -84,49 +85,6 @@ export async function validateInstrument(instrumentId: string): Promise<Validati
   return report
 }
 
-function extractPitchFromFilename(filename: string): number | null {
-  // Try to find note name in the file (e.g., Kick_C3.wav)
-  const match = /([A-Ga-g][#b]?[0-9])/.exec(filename)
-  if (match) {
-    return noteToMidi(match[1].toUpperCase())
-  }
-  return null
-}
-
-function noteToMidi(noteName: string): number {
-  const noteMap: { [key: string]: number } = {
-    C: 0,
-    "C#": 1,
-    Db: 1,
-    D: 2,
-    "D#": 3,
-    Eb: 3,
-    E: 4,
-    F: 5,
-    "F#": 6,
-    Gb: 6,
-    G: 7,
-    "G#": 8,
-    Ab: 8,
-    A: 9,
-    "A#": 10,
-    Bb: 10,
-    B: 11,
-  }
-
-  // Extract note and octave
-  const noteRegex = /([A-G][#b]?)([0-9])/i
-  const match = noteRegex.exec(noteName)
-
-  if (!match) return -1
-
-  const note = match[1].toUpperCase()
-  const octave = Number.parseInt(match[2], 10)
-
-  // Calculate MIDI note number
-  return (octave + 1) * 12 + (noteMap[note] || 0)
-}
-
 function parseVelocityLayers(layers: Layer[]): VelocityCheckResult {
   const result: VelocityCheckResult = {
     valid: true,
@@ -0,0 +1,113 @@
+// Spreads the root notes of a multi-sampled instrument across the keyboard. Every strategy keeps each root inside
+// its own range and never lets ranges overlap; keys no sample may be transposed to are reported as gaps.
+
+export type KeyRangeStrategy =
+  | { type: "midpoint" } // split halfway between roots, stretching the outer samples to 0 and 127
+  | { type: "stretchUp" } // each sample plays from its root up to the next, so samples are only transposed up
+  | { type: "stretchDown" } // each sample plays from the previous root down to its own, only transposed down
+  | { type: "maxTranspose"; semitones: number } // midpoint split, but no key further than this from its root
+  | { type: "fixedWidth"; width: number } // the same number of keys around every root, split where they meet
+
+export interface KeyRange {
+  rootNote: number
+  lowNote: number
+  highNote: number
+}
+
+export interface KeyGap {
+  lowNote: number
+  highNote: number
+}
+
+export interface KeyRangeResult {
+  ranges: KeyRange[] // one per root note, lowest first
+  gaps: KeyGap[]
+}
+
+/**
+ * Calculates a key range for every root note with the strategy. Duplicate roots share one range.
+ */
+export function calculateKeyRanges(
+  rootNotes: number[],
+  strategy: KeyRangeStrategy = { type: "midpoint" },
+): KeyRangeResult {
+  const roots = Array.from(new Set(rootNotes.map((note) => clampNote(Math.round(note))))).sort((a, b) => a - b)
+
+  const ranges = roots.map((rootNote, index) => {
+    const previous = index > 0 ? roots[index - 1] : null
+    const next = index < roots.length - 1 ? roots[index + 1] : null
+
+    // The midpoint split is the furthest any strategy lets a range reach towards a neighbour
+    const lowLimit = previous === null ? 0 : Math.floor((previous + rootNote) / 2) + 1
+    const highLimit = next === null ? 127 : Math.floor((rootNote + next) / 2)
+
+    switch (strategy.type) {
+      case "stretchUp":
+        return { rootNote, lowNote: rootNote, highNote: next === null ? 127 : next - 1 }
+      case "stretchDown":
+        return { rootNote, lowNote: previous === null ? 0 : previous + 1, highNote: rootNote }
+      case "maxTranspose": {
+        const semitones = Math.max(0, Math.floor(strategy.semitones))
+        return {
+          rootNote,
+          lowNote: Math.max(lowLimit, rootNote - semitones),
+          highNote: Math.min(highLimit, rootNote + semitones),
+        }
+      }
+      case "fixedWidth": {
+        const width = Math.max(1, Math.floor(strategy.width))
+        const lowNote = rootNote - Math.floor((width - 1) / 2)
+        return {
+          rootNote,
+          lowNote: Math.max(lowLimit, lowNote),
+          highNote: Math.min(highLimit, lowNote + width - 1),
+        }
+      }
+      case "midpoint":
+        return { rootNote, lowNote: lowLimit, highNote: highLimit }
+    }
+  })
+
+  return { ranges, gaps: findKeyGaps(ranges) }
+}
+
+/**
+ * Finds the runs of keys from 0 to 127 that no range covers
+ */
+export function findKeyGaps(ranges: { lowNote: number; highNote: number }[]): KeyGap[] {
+  const covered = new Array<boolean>(128).fill(false)
+  for (const range of ranges) {
+    for (let note = Math.max(0, range.lowNote); note <= Math.min(127, range.highNote); note++) {
+      covered[note] = true
+    }
+  }
+
+  const gaps: KeyGap[] = []
+  for (let note = 0; note < 128; note++) {
+    if (covered[note]) continue
+
+    const lowNote = note
+    while (note + 1 < 128 && !covered[note + 1]) note++
+    gaps.push({ lowNote, highNote: note })
+  }
+
+  return gaps
+}
+
+/**
+ * How many semitones each key from 0 to 127 is transposed from the root of the range that plays it, or null
+ * when no range covers the key. Where ranges overlap the first one counts.
+ */
+export function keyTranspositions(ranges: KeyRange[]): (number | null)[] {
+  const transpositions = new Array<number | null>(128).fill(null)
+  for (const range of ranges) {
+    for (let note = Math.max(0, range.lowNote); note <= Math.min(127, range.highNote); note++) {
+      if (transpositions[note] === null) transpositions[note] = note - range.rootNote
+    }
+  }
+  return transpositions
+}
+
+function clampNote(note: number): number {
+  return Math.max(0, Math.min(127, note))
+}
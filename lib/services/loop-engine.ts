@@ -0,0 +1,194 @@
+import type { SampleLoop } from "../sample-manager"
+import { magnitudeSpectrum } from "./fft"
+
+// Loop positions are sample frames, the end is the last frame played before jumping back to the start
+export interface LoopCandidate {
+  start: number
+  end: number
+  score: number // 0-1, higher loops more smoothly
+}
+
+export interface LoopSearchOptions {
+  minLength?: number // seconds, defaults to 0.2
+  maxCandidates?: number // defaults to 5
+}
+
+// Analysis sizes in frames
+const PERIOD_WINDOW = 2048
+const SPECTRUM_SIZE = 1024
+const START_STEPS = 64
+const END_STEPS = 8
+
+// Search the sustain, skipping the attack and release portions of the sample
+const ATTACK_FRACTION = 0.1
+const RELEASE_FRACTION = 0.1
+
+/**
+ * Finds loop regions in the sustain of a sample, ranked by how seamlessly the end runs into the start.
+ * Lengths are whole multiples of the autocorrelation period, both points snap to rising zero crossings and
+ * candidates are scored on waveform correlation and spectral similarity around the loop seam.
+ */
+export function findLoopCandidates(
+  data: Float32Array,
+  sampleRate: number,
+  options: LoopSearchOptions = {},
+): LoopCandidate[] {
+  const minLength = Math.round((options.minLength ?? 0.2) * sampleRate)
+  const maxCandidates = options.maxCandidates ?? 5
+
+  const regionStart = Math.max(peakIndex(data), Math.round(data.length * ATTACK_FRACTION), SPECTRUM_SIZE)
+  const regionEnd = Math.min(Math.floor(data.length * (1 - RELEASE_FRACTION)), data.length - SPECTRUM_SIZE)
+  if (regionEnd - regionStart < minLength) return []
+
+  const period = estimatePeriod(data, Math.round((regionStart + regionEnd) / 2), sampleRate)
+  const window = Math.max(2 * period, 512)
+
+  // Coarse search on a grid, keeping lengths to whole periods so the waveform lines up
+  const coarse: LoopCandidate[] = []
+  const endRangeStart = regionStart + Math.round((regionEnd - regionStart) * 0.66)
+  for (let endStep = 0; endStep < END_STEPS; endStep++) {
+    const end = endRangeStart + Math.round(((regionEnd - endRangeStart) * endStep) / END_STEPS)
+    const startStep = Math.max(1, period, Math.floor((end - minLength - regionStart) / START_STEPS))
+
+    for (let start = regionStart; start <= end - minLength; start += startStep) {
+      const length = period > 0 ? Math.round((end - start) / period) * period : end - start
+      const alignedStart = end - length
+      if (alignedStart < regionStart || length < minLength) continue
+
+      coarse.push({ start: alignedStart, end, score: correlation(data, alignedStart, end + 1, window) })
+    }
+  }
+
+  coarse.sort((a, b) => b.score - a.score)
+
+  // Refine the best matches: snap to zero crossings and score the seam's spectrum
+  const candidates: LoopCandidate[] = []
+  for (const candidate of coarse.slice(0, maxCandidates * 4)) {
+    const radius = Math.max(period, 256)
+    const start = snapToZeroCrossing(data, candidate.start, radius)
+    const end = snapToZeroCrossing(data, candidate.end + 1, radius) - 1
+    if (end - start + 1 < minLength || start < SPECTRUM_SIZE) continue
+
+    const overlaps = candidates.some(
+      (other) => Math.abs(other.start - start) <= radius && Math.abs(other.end - end) <= radius,
+    )
+    if (overlaps) continue
+
+    const waveform = correlation(data, start, end + 1, window)
+    const spectral = spectralSimilarity(data, start, end + 1)
+    candidates.push({ start, end, score: Math.max(0, (waveform + spectral) / 2) })
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, maxCandidates)
+}
+
+/**
+ * Returns the nearest rising zero crossing within the radius, or the position itself when there is none
+ */
+export function snapToZeroCrossing(data: Float32Array, position: number, radius: number): number {
+  for (let distance = 0; distance <= radius; distance++) {
+    for (const index of [position - distance, position + distance]) {
+      if (index > 0 && index < data.length && data[index - 1] < 0 && data[index] >= 0) {
+        return index
+      }
+    }
+  }
+
+  return position
+}
+
+/**
+ * Bakes an equal-power crossfade into the audio before the loop end, blending in the audio leading up to the
+ * loop start so the jump back is seamless. The crossfade is limited to the audio available before the start.
+ */
+export function crossfadeLoop(channels: Float32Array[], loop: SampleLoop, crossfadeFrames: number): Float32Array[] {
+  const length = Math.min(Math.round(crossfadeFrames), loop.start, loop.end - loop.start + 1)
+
+  return channels.map((data) => {
+    const output = data.slice()
+    if (length <= 0 || loop.end >= data.length) return output
+
+    for (let i = 0; i < length; i++) {
+      const position = loop.end - length + 1 + i
+      const source = loop.start - length + i
+      const angle = (((i + 1) / length) * Math.PI) / 2
+
+      output[position] = data[position] * Math.cos(angle) + data[source] * Math.sin(angle)
+    }
+
+    return output
+  })
+}
+
+function peakIndex(data: Float32Array): number {
+  let peak = 0
+  for (let i = 1; i < data.length; i++) {
+    if (Math.abs(data[i]) > Math.abs(data[peak])) peak = i
+  }
+  return peak
+}
+
+/**
+ * Estimates the waveform period from the first strong autocorrelation peak, or 0 for unpitched audio
+ */
+function estimatePeriod(data: Float32Array, center: number, sampleRate: number): number {
+  const start = Math.max(0, center - PERIOD_WINDOW / 2)
+  const minLag = Math.max(2, Math.floor(sampleRate / 2000))
+  const maxLag = Math.min(Math.floor(sampleRate / 30), PERIOD_WINDOW / 2)
+
+  const scores: number[] = []
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    scores.push(correlation(data, start, start + lag, PERIOD_WINDOW / 2))
+  }
+
+  const best = Math.max(...scores, 0)
+  if (best < 0.5) return 0
+
+  // The earliest peak close to the best avoids picking a multiple of the period
+  for (let i = 1; i < scores.length - 1; i++) {
+    if (scores[i] >= 0.9 * best && scores[i] >= scores[i - 1] && scores[i] >= scores[i + 1]) {
+      return minLag + i
+    }
+  }
+
+  return minLag + scores.indexOf(best)
+}
+
+/**
+ * Normalized cross-correlation of two windows centered on the given positions
+ */
+function correlation(data: Float32Array, a: number, b: number, window: number): number {
+  const half = Math.floor(window / 2)
+  let sum = 0
+  let energyA = 0
+  let energyB = 0
+
+  for (let i = -half; i < half; i++) {
+    const x = data[a + i] || 0
+    const y = data[b + i] || 0
+    sum += x * y
+    energyA += x * x
+    energyB += y * y
+  }
+
+  return energyA > 0 && energyB > 0 ? sum / Math.sqrt(energyA * energyB) : 0
+}
+
+/**
+ * Cosine similarity of the magnitude spectra leading up to two positions
+ */
+function spectralSimilarity(data: Float32Array, a: number, b: number): number {
+  const spectrumA = magnitudeSpectrum(data, a - SPECTRUM_SIZE, SPECTRUM_SIZE)
+  const spectrumB = magnitudeSpectrum(data, b - SPECTRUM_SIZE, SPECTRUM_SIZE)
+  let sum = 0
+  let energyA = 0
+  let energyB = 0
+
+  for (let i = 0; i < spectrumA.length; i++) {
+    sum += spectrumA[i] * spectrumB[i]
+    energyA += spectrumA[i] * spectrumA[i]
+    energyB += spectrumB[i] * spectrumB[i]
+  }
+
+  return energyA > 0 && energyB > 0 ? sum / Math.sqrt(energyA * energyB) : 0
+}
@@ -0,0 +1,79 @@
+import type { XPMProgram, XPMSampleRef } from "./xpm-program"
+
+// MPC browsers truncate long names, and FAT/exFAT cards reject reserved characters and device names
+export const MPC_MAX_FILENAME_LENGTH = 64
+const RESERVED_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f\u007f]/g
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i
+
+/**
+ * Makes a filename safe to store on an MPC, optionally replacing its extension
+ */
+export function sanitizeFilename(filename: string, extension?: string): string {
+  const match = /^(.*?)(\.[A-Za-z0-9]{1,5})?$/.exec(filename.trim())
+  const ext = (extension ?? match?.[2] ?? "").toLowerCase()
+
+  let base = (match?.[1] || "")
+    .replace(RESERVED_CHARACTERS, "_")
+    .replace(/\s+/g, " ")
+    .replace(/[. ]+$/, "")
+    .trim()
+
+  if (!base) base = "sample"
+  if (RESERVED_NAMES.test(base)) base = `_${base}`
+
+  return truncateBase(base, ext) + ext
+}
+
+/**
+ * Returns the filename, numbered if a case-insensitive match is already in use, and marks it as used
+ */
+export function uniqueFilename(filename: string, used: Set<string>): string {
+  const match = /^(.*?)(\.[^.]*)?$/.exec(filename)
+  const base = match?.[1] || filename
+  const ext = match?.[2] || ""
+
+  let candidate = filename
+  for (let counter = 2; used.has(candidate.toLowerCase()); counter++) {
+    const suffix = `_${counter}`
+    candidate = truncateBase(base, suffix + ext) + suffix + ext
+  }
+
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+/**
+ * Renames every sample the program references to a unique MPC-safe WAV filename, keeping its directory.
+ * Returns the new reference for each sample ID (or original path), so exporters can write the audio under it.
+ * Pass the map from a previous call to share one set of filenames across several programs.
+ */
+export function applyFilenamePolicy(
+  program: XPMProgram,
+  renamed: Map<string, XPMSampleRef> = new Map(),
+): Map<string, XPMSampleRef> {
+  const used = new Set(Array.from(renamed.values()).map((sample) => sample.name.toLowerCase()))
+
+  for (const instrument of program.instruments) {
+    for (const layer of instrument.layers) {
+      // Distinct loaded samples get distinct files even when their names match
+      const key = layer.sample.sampleId || layer.sample.path || layer.sample.name
+      let sample = renamed.get(key)
+
+      if (!sample) {
+        const directory = /^(.*[\\/])?/.exec(layer.sample.path)?.[1] || ""
+        const filename = layer.sample.name || layer.sample.path.replace(/^.*[\\/]/, "")
+        const name = uniqueFilename(sanitizeFilename(filename, ".wav"), used)
+        sample = { ...layer.sample, name, path: directory + name }
+        renamed.set(key, sample)
+      }
+
+      layer.sample = { ...sample }
+    }
+  }
+
+  return renamed
+}
+
+function truncateBase(base: string, suffix: string): string {
+  return base.slice(0, Math.max(1, MPC_MAX_FILENAME_LENGTH - suffix.length)).trimEnd()
+}
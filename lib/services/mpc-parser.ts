@@ -0,0 +1,247 @@
+import {
+  createInstrument,
+  createLayer,
+  createProgram,
+  type XPMInstrument,
+  type XPMLayer,
+  type XPMLayerPlay,
+  type XPMProgram,
+} from "./xpm-program"
+import type { XPMParseResult } from "./xpm-parser"
+import { MPC_ZONE_PLAY } from "./mpc-serializer"
+import {
+  attribute,
+  childBool,
+  childElement,
+  childElements,
+  childFloat,
+  childInt,
+  childText,
+  intAttribute,
+} from "./xml-helpers"
+import type { XMLElement } from "./xml-parser"
+
+// Elements the parser maps onto the program model, by parent element
+const KNOWN_ELEMENTS: { [parent: string]: string[] } = {
+  MPCVObject: ["Version", "Program"],
+  Version: ["File_Version", "Application", "Application_Version", "Platform"],
+  Program: [
+    "ProgramName",
+    "Volume",
+    "Pan",
+    "TuneCoarse",
+    "TuneFine",
+    "KeygroupNumKeygroups",
+    "Instruments",
+    "PadNoteMap",
+    "PadGroupMap",
+  ],
+  Instruments: ["Instrument"],
+  Instrument: [
+    "Volume",
+    "Pan",
+    "TuneCoarse",
+    "TuneFine",
+    "FilterType",
+    "Cutoff",
+    "Resonance",
+    "VolumeAttack",
+    "VolumeDecay",
+    "VolumeSustain",
+    "VolumeRelease",
+    "LowNote",
+    "HighNote",
+    "MuteGroup",
+    "ZonePlay",
+    "Layers",
+  ],
+  Layers: ["Layer"],
+  Layer: [
+    "Active",
+    "Volume",
+    "Pan",
+    "TuneCoarse",
+    "TuneFine",
+    "VelStart",
+    "VelEnd",
+    "RootNote",
+    "KeyTrack",
+    "SampleName",
+    "SampleFile",
+    "Loop",
+    "LoopStart",
+    "LoopEnd",
+    "LoopCrossfadeLength",
+  ],
+  PadNoteMap: ["PadNote"],
+  PadNote: ["Note"],
+  PadGroupMap: ["PadGroup"],
+  PadGroup: ["Group"],
+}
+
+/**
+ * Parses the MPCVObject schema written by MPC Software and MPC firmware
+ */
+export function parseMPCProgram(root: XMLElement): XPMParseResult {
+  const programElement = childElement(root, "Program")
+  if (!programElement) {
+    throw new Error("MPCVObject has no Program element")
+  }
+
+  const isDrumkit = attribute(programElement, "type") === "Drum"
+  const name = childText(programElement, "ProgramName") || "Imported Program"
+  const program = createProgram(name, isDrumkit ? "drumkit" : "instrument")
+
+  program.volume = childFloat(programElement, "Volume", 1)
+  program.pan = fromMPCPan(childFloat(programElement, "Pan", 0.5))
+  program.tuning = {
+    coarse: childInt(programElement, "TuneCoarse", 0),
+    fine: childInt(programElement, "TuneFine", 0),
+  }
+
+  let instrumentElements = childElements(childElement(programElement, "Instruments"), "Instrument")
+
+  // Keygroup programs may carry spare instruments beyond the active keygroup count
+  const numKeygroups = childInt(programElement, "KeygroupNumKeygroups", -1)
+  if (!isDrumkit && numKeygroups >= 0) {
+    instrumentElements = instrumentElements.slice(0, numKeygroups)
+  }
+
+  instrumentElements.forEach((instrumentElement, position) => {
+    program.instruments.push(parseInstrument(instrumentElement, intAttribute(instrumentElement, "number", position)))
+  })
+
+  if (isDrumkit) {
+    parsePadMaps(programElement, program)
+
+    // Pads without samples or a mute group only exist to fill the MPC's fixed instrument list
+    program.instruments = program.instruments
+      .filter((i) => i.layers.length > 0 || i.muteGroup !== 0)
+      .sort((a, b) => a.number - b.number)
+  }
+
+  return { program, unknownElements: findUnknownElements(root) }
+}
+
+function parseInstrument(element: XMLElement, number: number): XPMInstrument {
+  const instrument = createInstrument(number, {
+    lowNote: childInt(element, "LowNote", 0),
+    highNote: childInt(element, "HighNote", 127),
+    volume: childFloat(element, "Volume", 1),
+    pan: fromMPCPan(childFloat(element, "Pan", 0.5)),
+    tuning: {
+      coarse: childInt(element, "TuneCoarse", 0),
+      fine: childInt(element, "TuneFine", 0),
+    },
+    envelope: {
+      attack: childFloat(element, "VolumeAttack", 0),
+      decay: childFloat(element, "VolumeDecay", 0),
+      sustain: childFloat(element, "VolumeSustain", 1),
+      release: childFloat(element, "VolumeRelease", 0),
+    },
+    filter: {
+      type: childInt(element, "FilterType", 0),
+      cutoff: childFloat(element, "Cutoff", 1),
+      resonance: childFloat(element, "Resonance", 0),
+    },
+    muteGroup: childInt(element, "MuteGroup", 0),
+    layerPlay: parseZonePlay(childInt(element, "ZonePlay", MPC_ZONE_PLAY.velocity)),
+  })
+
+  for (const layerElement of childElements(childElement(element, "Layers"), "Layer")) {
+    const layer = parseLayer(layerElement)
+    if (layer) instrument.layers.push(layer)
+  }
+
+  return instrument
+}
+
+function parseLayer(element: XMLElement): XPMLayer | null {
+  const sampleName = childText(element, "SampleName") || ""
+  if (!sampleName) return null
+
+  // MPC Software leaves SampleFile empty and resolves SampleName next to the program
+  const samplePath = childText(element, "SampleFile") || `${sampleName}.wav`
+  const extension = /\.[^./\\]+$/.exec(samplePath)
+
+  return createLayer(
+    { name: sampleName + (extension ? extension[0] : ".wav"), path: samplePath },
+    {
+      rootNote: childInt(element, "RootNote", 60),
+      velocityLow: childInt(element, "VelStart", 0),
+      velocityHigh: childInt(element, "VelEnd", 127),
+      volume: childFloat(element, "Volume", 1),
+      pan: fromMPCPan(childFloat(element, "Pan", 0.5)),
+      tuning: {
+        coarse: childInt(element, "TuneCoarse", 0),
+        fine: childInt(element, "TuneFine", 0),
+      },
+      loop: {
+        enabled: childBool(element, "Loop", false),
+        start: childInt(element, "LoopStart", 0),
+        end: childInt(element, "LoopEnd", 0),
+        crossfade: childInt(element, "LoopCrossfadeLength", 0),
+      },
+    },
+  )
+}
+
+/**
+ * Reads the 1-based pad-to-note and pad-to-mute-group maps
+ */
+function parsePadMaps(programElement: XMLElement, program: XPMProgram): void {
+  for (const padNote of childElements(childElement(programElement, "PadNoteMap"), "PadNote")) {
+    const pad = program.pads.find((p) => p.index === intAttribute(padNote, "number", 0) - 1)
+    if (pad) {
+      pad.note = childInt(padNote, "Note", pad.note)
+    }
+  }
+
+  for (const padGroup of childElements(childElement(programElement, "PadGroupMap"), "PadGroup")) {
+    const padIndex = intAttribute(padGroup, "number", 0) - 1
+    const group = childInt(padGroup, "Group", 0)
+    if (padIndex < 0 || group === 0) continue
+
+    let instrument = program.instruments.find((i) => i.number === padIndex)
+    if (!instrument) {
+      instrument = createInstrument(padIndex)
+      program.instruments.push(instrument)
+    }
+
+    instrument.muteGroup = group
+  }
+}
+
+/**
+ * Lists the distinct paths of elements the parser does not map onto the model
+ */
+function findUnknownElements(root: XMLElement): string[] {
+  const unknown = new Set<string>()
+
+  const visit = (element: XMLElement, path: string) => {
+    const known = KNOWN_ELEMENTS[element.name]
+    if (!known) return
+
+    for (const child of element.children) {
+      const childPath = `${path}/${child.name}`
+
+      if (known.includes(child.name)) {
+        visit(child, childPath)
+      } else {
+        unknown.add(childPath)
+      }
+    }
+  }
+
+  visit(root, root.name)
+  return Array.from(unknown)
+}
+
+function fromMPCPan(pan: number): number {
+  return pan * 2 - 1
+}
+
+function parseZonePlay(value: number): XPMLayerPlay {
+  const modes = Object.keys(MPC_ZONE_PLAY) as XPMLayerPlay[]
+  return modes.find((mode) => MPC_ZONE_PLAY[mode] === value) || "velocity"
+}
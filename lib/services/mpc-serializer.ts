@@ -0,0 +1,183 @@
+import {
+  createInstrument,
+  defaultPadNote,
+  DRUM_PAD_COUNT,
+  type XPMInstrument,
+  type XPMLayer,
+  type XPMLayerPlay,
+  type XPMProgram,
+} from "./xpm-program"
+import { escapeXML } from "./xml-escape"
+
+// Header values matching programs saved by MPC Software 2.x
+export const MPC_FILE_VERSION = "2.1"
+const MPC_APPLICATION = "MPC-V"
+const MPC_APPLICATION_VERSION = "2.10.0.0"
+
+// Layers a keygroup holds in these files; the MPC ignores any further ones
+export const MPC_MAX_LAYERS = 4
+
+// ZonePlay values of the MPC's layer play modes
+export const MPC_ZONE_PLAY: Record<XPMLayerPlay, number> = { cycle: 0, velocity: 1, random: 2, randomAdditive: 3 }
+
+/**
+ * Serializes a program to the MPCVObject schema loaded by MPC Software and MPC firmware
+ */
+export function serializeMPCProgram(program: XPMProgram): string {
+  const isDrumkit = program.type === "drumkit"
+  const instruments = isDrumkit ? drumInstruments(program) : program.instruments
+
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>', "", "<MPCVObject>"]
+
+  lines.push("  <Version>")
+  lines.push(`    ${element("File_Version", MPC_FILE_VERSION)}`)
+  lines.push(`    ${element("Application", MPC_APPLICATION)}`)
+  lines.push(`    ${element("Application_Version", MPC_APPLICATION_VERSION)}`)
+  lines.push(`    ${element("Platform", "Linux")}`)
+  lines.push("  </Version>")
+
+  lines.push(`  <Program type="${isDrumkit ? "Drum" : "Keygroup"}">`)
+  lines.push(`    ${element("ProgramName", program.name)}`)
+  lines.push(`    ${element("Volume", float(program.volume))}`)
+  lines.push(`    ${element("Pan", float(toMPCPan(program.pan)))}`)
+  lines.push(`    ${element("TuneCoarse", int(program.tuning.coarse))}`)
+  lines.push(`    ${element("TuneFine", int(program.tuning.fine))}`)
+
+  if (!isDrumkit) {
+    lines.push(`    ${element("KeygroupNumKeygroups", int(instruments.length))}`)
+  }
+
+  lines.push("    <Instruments>")
+  for (const instrument of instruments) {
+    lines.push(...instrumentElement(instrument, isDrumkit, "      "))
+  }
+  lines.push("    </Instruments>")
+
+  if (isDrumkit) {
+    lines.push(...padMaps(program, "    "))
+  }
+
+  lines.push("  </Program>")
+  lines.push("</MPCVObject>")
+
+  return lines.join("\n")
+}
+
+/**
+ * Fills every pad slot with an instrument, as MPC drum programs require
+ */
+function drumInstruments(program: XPMProgram): XPMInstrument[] {
+  const instruments: XPMInstrument[] = []
+
+  for (let padIndex = 0; padIndex < DRUM_PAD_COUNT; padIndex++) {
+    const existing = program.instruments.find((i) => i.number === padIndex)
+    instruments.push(existing || createInstrument(padIndex))
+  }
+
+  return instruments
+}
+
+function instrumentElement(instrument: XPMInstrument, isDrumkit: boolean, indent: string): string[] {
+  const lines = [`${indent}<Instrument number="${instrument.number}">`]
+  const inner = indent + "  "
+
+  lines.push(`${inner}${element("Volume", float(instrument.volume))}`)
+  lines.push(`${inner}${element("Pan", float(toMPCPan(instrument.pan)))}`)
+  lines.push(`${inner}${element("TuneCoarse", int(instrument.tuning.coarse))}`)
+  lines.push(`${inner}${element("TuneFine", int(instrument.tuning.fine))}`)
+  lines.push(`${inner}${element("FilterType", int(instrument.filter.type))}`)
+  lines.push(`${inner}${element("Cutoff", float(instrument.filter.cutoff))}`)
+  lines.push(`${inner}${element("Resonance", float(instrument.filter.resonance))}`)
+  lines.push(`${inner}${element("VolumeAttack", float(instrument.envelope.attack))}`)
+  lines.push(`${inner}${element("VolumeDecay", float(instrument.envelope.decay))}`)
+  lines.push(`${inner}${element("VolumeSustain", float(instrument.envelope.sustain))}`)
+  lines.push(`${inner}${element("VolumeRelease", float(instrument.envelope.release))}`)
+  lines.push(`${inner}${element("LowNote", int(instrument.lowNote))}`)
+  lines.push(`${inner}${element("HighNote", int(instrument.highNote))}`)
+  lines.push(`${inner}${element("MuteGroup", int(instrument.muteGroup))}`)
+  lines.push(`${inner}${element("ZonePlay", int(MPC_ZONE_PLAY[instrument.layerPlay]))}`)
+
+  lines.push(`${inner}<Layers>`)
+  instrument.layers.forEach((layer, index) => {
+    lines.push(...layerElement(layer, index, isDrumkit, inner + "  "))
+  })
+  lines.push(`${inner}</Layers>`)
+
+  lines.push(`${indent}</Instrument>`)
+  return lines
+}
+
+function layerElement(layer: XPMLayer, index: number, isDrumkit: boolean, indent: string): string[] {
+  const inner = indent + "  "
+
+  return [
+    `${indent}<Layer number="${index + 1}">`,
+    `${inner}${element("Active", bool(true))}`,
+    `${inner}${element("Volume", float(layer.volume))}`,
+    `${inner}${element("Pan", float(toMPCPan(layer.pan)))}`,
+    `${inner}${element("TuneCoarse", int(layer.tuning.coarse))}`,
+    `${inner}${element("TuneFine", int(layer.tuning.fine))}`,
+    `${inner}${element("VelStart", int(layer.velocityLow))}`,
+    `${inner}${element("VelEnd", int(layer.velocityHigh))}`,
+    `${inner}${element("RootNote", int(layer.rootNote))}`,
+    `${inner}${element("KeyTrack", bool(!isDrumkit))}`,
+    `${inner}${element("SampleName", stripExtension(layer.sample.name))}`,
+    `${inner}${element("SampleFile", layer.sample.path)}`,
+    `${inner}${element("Loop", bool(layer.loop.enabled))}`,
+    `${inner}${element("LoopStart", int(layer.loop.start))}`,
+    `${inner}${element("LoopEnd", int(layer.loop.end))}`,
+    `${inner}${element("LoopCrossfadeLength", int(layer.loop.crossfade))}`,
+    `${indent}</Layer>`,
+  ]
+}
+
+/**
+ * Writes the pad-to-note and pad-to-mute-group maps (both 1-based on the MPC)
+ */
+function padMaps(program: XPMProgram, indent: string): string[] {
+  const noteLines = [`${indent}<PadNoteMap>`]
+  const groupLines = [`${indent}<PadGroupMap>`]
+
+  for (let padIndex = 0; padIndex < DRUM_PAD_COUNT; padIndex++) {
+    const pad = program.pads.find((p) => p.index === padIndex)
+    const instrument = program.instruments.find((i) => i.number === padIndex)
+
+    noteLines.push(`${indent}  <PadNote number="${padIndex + 1}">`)
+    noteLines.push(`${indent}    ${element("Note", int(pad ? pad.note : defaultPadNote(padIndex)))}`)
+    noteLines.push(`${indent}  </PadNote>`)
+
+    groupLines.push(`${indent}  <PadGroup number="${padIndex + 1}">`)
+    groupLines.push(`${indent}    ${element("Group", int(instrument ? instrument.muteGroup : 0))}`)
+    groupLines.push(`${indent}  </PadGroup>`)
+  }
+
+  noteLines.push(`${indent}</PadNoteMap>`)
+  groupLines.push(`${indent}</PadGroupMap>`)
+
+  return [...noteLines, ...groupLines]
+}
+
+function element(name: string, value: string): string {
+  return `<${name}>${escapeXML(value)}</${name}>`
+}
+
+function float(value: number): string {
+  return value.toFixed(6)
+}
+
+function int(value: number): string {
+  return String(Math.round(value))
+}
+
+function bool(value: boolean): string {
+  return value ? "True" : "False"
+}
+
+// The MPC stores pan as 0 (left) to 1 (right) with 0.5 centered
+function toMPCPan(pan: number): number {
+  return (pan + 1) / 2
+}
+
+function stripExtension(filename: string): string {
+  return filename.replace(/\.[^./\\]+$/, "")
+}
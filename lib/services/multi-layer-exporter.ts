@@ -1,5 +1,8 @@
-import { XPMWriter } from "./xpm-writer"
-import { detectPitch } from "./pitch-detection"
+import { XPMWriter, type XPMZone } from "./xpm-writer"
+import type { XPMFormat } from "./xpm-serializer"
+import type { XPMProgram } from "./xpm-program"
+import { detectPitch, midiToNoteName } from "./pitch-detection"
+import { tokenizeFilename, velocityFromTokens } from "./filename-tokenizer"
 import SampleManager from "../sample-manager"
 import type { Sample } from "../sample-manager"
 
@@ -8,24 +11,29 @@ export interface SampleInfo {
   noteName: string | null
   velocity: number
   pitch: number | null
+  fineTune: number // cents the detected pitch is off the MIDI note
 }
 
 export class MultiLayerExporter {
   private xpmWriter: XPMWriter
 
-  constructor(instrumentName: string) {
-    this.xpmWriter = new XPMWriter(instrumentName)
+  constructor(instrumentName: string, format: XPMFormat = "mpc") {
+    this.xpmWriter = new XPMWriter(instrumentName, "instrument", format)
   }
 
   public async processAndExport(sampleIds: string[]): Promise<string> {
-    const zones: {
-      file: string
-      root: number
-      low: number
-      high: number
-      velLow: number
-      velHigh: number
-    }[] = []
+    return this.xpmWriter.createXPMFromZones(await this.createZones(sampleIds))
+  }
+
+  /**
+   * Builds the program model instead of XPM text, for exporters that package the samples
+   */
+  public async buildProgram(sampleIds: string[]): Promise<XPMProgram> {
+    return this.xpmWriter.buildProgramFromZones(await this.createZones(sampleIds))
+  }
+
+  private async createZones(sampleIds: string[]): Promise<XPMZone[]> {
+    const zones: XPMZone[] = []
 
     const sampleManager = SampleManager.getInstance()
 
@@ -43,13 +51,13 @@ export class MultiLayerExporter {
         high: sampleInfo.pitch,
         velLow: sampleInfo.velocity,
         velHigh: sampleInfo.velocity,
+        sampleId: sample.id,
+        fineTune: sampleInfo.fineTune,
       })
     }
 
     // Group zones by pitch and assign velocity ranges
-    const groupedZones = this.assignVelocityRanges(zones)
-
-    return this.xpmWriter.generateXPMContent(groupedZones)
+    return this.assignVelocityRanges(zones)
   }
 
   private async extractSampleInfo(sample: Sample): Promise<SampleInfo> {
@@ -58,13 +66,13 @@ export class MultiLayerExporter {
       noteName: null,
       velocity: 127, // default
       pitch: null,
+      fineTune: 0,
     }
 
-    // Try to extract note name from filename
-    info.noteName = this.extractNoteFromFilename(sample.name)
-
-    // Extract velocity from filename
-    info.velocity = this.extractVelocityFromFilename(sample.name)
+    // Extract note and velocity from filename
+    const tokens = tokenizeFilename(sample.name)
+    info.noteName = tokens.note !== null ? midiToNoteName(tokens.note) : null
+    info.velocity = velocityFromTokens(tokens) ?? 100
 
     // Detect pitch
     if (sample.buffer) {
@@ -72,9 +80,10 @@ export class MultiLayerExporter {
         const pitchInfo = await detectPitch(sample.buffer)
         if (pitchInfo) {
           info.pitch = pitchInfo.midiNote
-        } else if (info.noteName) {
+          info.fineTune = pitchInfo.cents
+        } else if (tokens.note !== null) {
           // Use note from filename if pitch detection failed
-          info.pitch = this.noteToMidi(info.noteName)
+          info.pitch = tokens.note
         }
       } catch (error) {
         console.error("Failed to detect pitch:", error)
@@ -84,76 +93,7 @@ export class MultiLayerExporter {
     return info
   }
 
-  private extractNoteFromFilename(filename: string): string | null {
-    const match = /([A-Ga-g][#b]?[0-9])/.exec(filename)
-    return match ? match[1].toUpperCase() : null
-  }
-
-  private extractVelocityFromFilename(filename: string): number {
-    const name = filename.toLowerCase()
-
-    if (name.includes("soft")) {
-      return 40
-    } else if (name.includes("med")) {
-      return 80
-    } else if (name.includes("hard")) {
-      return 120
-    }
-
-    return 100 // default
-  }
-
-  private noteToMidi(noteName: string): number {
-    const noteMap: { [key: string]: number } = {
-      C: 0,
-      "C#": 1,
-      Db: 1,
-      D: 2,
-      "D#": 3,
-      Eb: 3,
-      E: 4,
-      F: 5,
-      "F#": 6,
-      Gb: 6,
-      G: 7,
-      "G#": 8,
-      Ab: 8,
-      A: 9,
-      "A#": 10,
-      Bb: 10,
-      B: 11,
-    }
-
-    // Extract note and octave
-    const noteRegex = /([A-G][#b]?)([0-9])/i
-    const match = noteRegex.exec(noteName)
-
-    if (!match) return -1
-
-    const note = match[1].toUpperCase()
-    const octave = Number.parseInt(match[2], 10)
-
-    // Calculate MIDI note number
-    return (octave + 1) * 12 + (noteMap[note] || 0)
-  }
-
-  private assignVelocityRanges(
-    zones: {
-      file: string
-      root: number
-      low: number
-      high: number
-      velLow: number
-      velHigh: number
-    }[],
-  ): {
-    file: string
-    root: number
-    low: number
-    high: number
-    velLow: number
-    velHigh: number
-  }[] {
+  private assignVelocityRanges(zones: XPMZone[]): XPMZone[] {
     // Group zones by root note
     const zonesByRoot: { [root: number]: typeof zones } = {}
 
@@ -0,0 +1,186 @@
+import SampleManager, { type Sample } from "../sample-manager"
+import { applyFilenamePolicy, sanitizeFilename, uniqueFilename } from "./mpc-filename"
+import { encodeWAV, resample, scaleMetadata, type PCMSource, type WAVEncodeOptions } from "./wav-encoder"
+import type { SampleMetadata } from "./wav-chunks"
+import { collectSampleRefs, type XPMProgram, type XPMSampleRef } from "./xpm-program"
+import { serializeXPM, type XPMFormat } from "./xpm-serializer"
+import { createZip, type ZipEntry } from "./zip-writer"
+
+// Archive layout: the program at the root, its audio in these folders
+export const PACKAGE_SAMPLE_FOLDER = "samples"
+export const PACKAGE_PREVIEW_FOLDER = "[Previews]"
+
+export interface PackagedProgram {
+  program: XPMProgram
+  preview?: AudioBuffer | null
+}
+
+export interface PackageLayout {
+  root?: string // folder every entry is placed in, e.g. "My Expansion/"
+  sampleFolder?: string // folder for samples relative to the programs, empty to keep them side by side
+}
+
+export class PackageExporter {
+  private format: XPMFormat
+  private audio: WAVEncodeOptions
+  private retune: boolean
+  private sampleManager: SampleManager
+
+  /**
+   * With retune set, instrument layers that are sharp or flat get their audio resampled to pitch
+   * and their fine tune cleared, instead of relying on the fine tune to correct them on playback
+   */
+  constructor(format: XPMFormat = "mpc", audio: WAVEncodeOptions = {}, retune = false) {
+    this.format = format
+    this.audio = audio
+    this.retune = retune
+    this.sampleManager = SampleManager.getInstance()
+  }
+
+  /**
+   * Writes the program, every sample it references as WAV and an optional preview to a ZIP archive
+   */
+  public exportPackage(program: XPMProgram, preview: AudioBuffer | null = null): Blob {
+    return createZip(this.createEntries([{ program, preview }]))
+  }
+
+  /**
+   * Lists the archive entries for programs sharing one set of sample files.
+   * Layers whose audio is not loaded are left out so every path in the XPMs exists in the archive.
+   */
+  public createEntries(programs: PackagedProgram[], layout: PackageLayout = {}): ZipEntry[] {
+    const root = layout.root || ""
+    const sampleFolder = layout.sampleFolder ?? PACKAGE_SAMPLE_FOLDER
+    const renamed = new Map<string, XPMSampleRef>()
+    const programEntries: ZipEntry[] = []
+    const previewEntries: ZipEntry[] = []
+    const samples = new Map<string, XPMSampleRef>()
+    const programFiles = new Set<string>()
+    const rootNotes = new Map<string, number>()
+    const retunes = new Map<string, number>()
+
+    const packagedPrograms = programs.map(({ program, preview }) => {
+      const packaged = this.resolveSamples(program)
+      applyFilenamePolicy(packaged, renamed)
+
+      for (const instrument of packaged.instruments) {
+        for (const layer of instrument.layers) {
+          layer.sample.path = sampleFolder ? `${sampleFolder}/${layer.sample.name}` : layer.sample.name
+
+          // Keygroup layers know the root note even when the sample itself does not
+          if (packaged.type === "instrument" && !rootNotes.has(layer.sample.path)) {
+            rootNotes.set(layer.sample.path, layer.rootNote)
+          }
+
+          // A file's audio is resampled by the first fine tune found for it
+          if (this.retune && packaged.type === "instrument" && layer.tuning.fine !== 0) {
+            if (!retunes.has(layer.sample.path)) retunes.set(layer.sample.path, layer.tuning.fine)
+          }
+        }
+      }
+
+      return { packaged, preview }
+    })
+
+    for (const { packaged, preview } of packagedPrograms) {
+      // Every layer sharing a resampled file moves by the same amount, whatever its own fine tune
+      for (const instrument of packaged.instruments) {
+        for (const layer of instrument.layers) {
+          layer.tuning.fine -= retunes.get(layer.sample.path) || 0
+        }
+      }
+
+      for (const ref of collectSampleRefs(packaged)) {
+        samples.set(ref.path, ref)
+      }
+
+      const programFile = uniqueFilename(sanitizeFilename(`${packaged.name}.xpm`), programFiles)
+      programEntries.push({ path: root + programFile, data: serializeXPM(packaged, this.format) })
+
+      if (preview) {
+        previewEntries.push({
+          path: `${root}${PACKAGE_PREVIEW_FOLDER}/${programFile}.wav`,
+          data: encodeWAV(preview, this.audio),
+        })
+      }
+    }
+
+    const sampleEntries = Array.from(samples.values()).flatMap((ref) => {
+      // Layers without loaded audio were dropped when the programs were resolved
+      const sample = ref.sampleId ? this.sampleManager.getSample(ref.sampleId) : undefined
+      if (!sample || !sample.buffer) return []
+
+      const metadata = { ...sample, rootNote: sample.rootNote ?? rootNotes.get(ref.path) }
+      const cents = retunes.get(ref.path)
+
+      if (cents) {
+        const retuned = retuneAudio(sample.buffer, metadata, cents)
+        const data = encodeWAV(retuned.buffer, { metadata: retuned.metadata, ...this.audio })
+        return [{ path: root + ref.path, data }]
+      }
+
+      return [{ path: root + ref.path, data: encodeWAV(sample.buffer, { metadata, ...this.audio }) }]
+    })
+
+    return [...programEntries, ...sampleEntries, ...previewEntries]
+  }
+
+  /**
+   * Copies the program, linking each layer to a loaded sample and dropping layers without audio
+   */
+  private resolveSamples(program: XPMProgram): XPMProgram {
+    const resolved: XPMProgram = JSON.parse(JSON.stringify(program))
+
+    for (const instrument of resolved.instruments) {
+      instrument.layers = instrument.layers.filter((layer) => {
+        const sample = this.findSample(layer.sample)
+        if (!sample) {
+          console.warn(`Sample "${layer.sample.name}" is not loaded and was left out of the package`)
+          return false
+        }
+
+        layer.sample.sampleId = sample.id
+        return true
+      })
+    }
+
+    return resolved
+  }
+
+  /**
+   * Resolves a reference to a loaded sample by ID, falling back to a case-insensitive filename match
+   */
+  private findSample(ref: XPMSampleRef): Sample | undefined {
+    const byId = ref.sampleId ? this.sampleManager.getSample(ref.sampleId) : undefined
+    if (byId) return byId.buffer ? byId : undefined
+
+    const filename = (ref.name || ref.path.replace(/^.*[\\/]/, "")).toLowerCase()
+    return this.sampleManager.getAllSamples().find((s) => s.buffer && s.name.toLowerCase() === filename)
+  }
+}
+
+/**
+ * Shifts the pitch of audio by resampling, which changes its length, and moves its markers to match.
+ * The result is in tune, so it carries no fine tune.
+ */
+function retuneAudio(
+  buffer: PCMSource,
+  metadata: SampleMetadata,
+  cents: number,
+): { buffer: PCMSource; metadata: SampleMetadata } {
+  // Playing the audio back faster by this ratio raises it by the cents
+  const ratio = Math.pow(2, cents / 1200)
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+    resample(buffer.getChannelData(channel), buffer.sampleRate * ratio, buffer.sampleRate),
+  )
+
+  return {
+    buffer: {
+      numberOfChannels: channels.length,
+      length: channels[0].length,
+      sampleRate: buffer.sampleRate,
+      getChannelData: (channel) => channels[channel],
+    },
+    metadata: { ...scaleMetadata(metadata, 1 / ratio), fineTune: 0 },
+  }
+}
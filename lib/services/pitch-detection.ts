@@ -1,101 +1,247 @@
-// JavaScript implementation of pitch detection functionality
-// Based on the provided Python pitch detection code
+import { mixChannels, type PCMSource } from "./wav-encoder"
+
+export type PitchMethod = "yin" | "mpm"
 
 export interface PitchInfo {
   frequency: number
   midiNote: number
   note: string
+  cents: number // offset of the frequency from the MIDI note, -50 to 50
+  confidence: number // 0-1, how periodic and stable the sustain is
+}
+
+export interface PitchDetectionOptions {
+  method?: PitchMethod // defaults to YIN
+  minFrequency?: number // Hz, defaults to 30
+  maxFrequency?: number // Hz, defaults to 4000
+  minConfidence?: number // results below this are unpitched, defaults to MIN_PITCH_CONFIDENCE
 }
 
+export const MIN_PITCH_CONFIDENCE = 0.5
+
 const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
 
-export async function detectPitch(audioBuffer: AudioBuffer): Promise<PitchInfo | null> {
-  // Get audio data from buffer
-  const data = audioBuffer.getChannelData(0)
-  const sampleRate = audioBuffer.sampleRate
+// Analysis sizes in frames
+const FRAME_SIZE = 2048
+const ENVELOPE_HOP = 512
+const MAX_FRAMES = 9
 
-  // Use a small portion of the audio for analysis
-  const analysisLength = Math.min(2048, data.length)
-  const audioData = data.slice(0, analysisLength)
+// The sustain starts this long after the envelope peak and lasts while the level stays above the floor
+const ATTACK_SKIP = 0.05 // seconds
+const SUSTAIN_FLOOR = 0.1
 
-  // Apply Hamming window
-  const windowed = applyWindow(audioData)
+// YIN dip threshold and the MPM key maximum ratio from the papers
+const YIN_THRESHOLD = 0.15
+const MPM_PEAK_RATIO = 0.9
 
-  // Perform FFT
-  const fftResult = performFFT(windowed)
+// Per-frame estimate: the period in frames and how clearly the frame repeats at it
+interface PeriodEstimate {
+  period: number
+  clarity: number
+}
 
-  // Find peak frequency
-  const { peakFreq } = findPeakFrequency(fftResult, sampleRate, analysisLength)
+/**
+ * Detects the pitch of a sample from its sustain, returning null when the sample is unpitched
+ */
+export async function detectPitch(
+  audioBuffer: PCMSource,
+  options: PitchDetectionOptions = {},
+): Promise<PitchInfo | null> {
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) =>
+    audioBuffer.getChannelData(channel),
+  )
+  const pitch = analyzePitch(mixChannels(channels, 1)[0], audioBuffer.sampleRate, options)
+  const minConfidence = options.minConfidence ?? MIN_PITCH_CONFIDENCE
+
+  return pitch && pitch.confidence >= minConfidence ? pitch : null
+}
 
-  if (peakFreq <= 0) {
-    return null
+/**
+ * Estimates the pitch over several frames of the sustain region with YIN or the McLeod Pitch Method.
+ * The result is the median of the frame estimates, and the confidence combines the frames' clarity with how
+ * many of them agree, so attack transients, octave jumps and noise lower it. Returns null when no frame repeats.
+ */
+export function analyzePitch(
+  data: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = {},
+): PitchInfo | null {
+  const minLag = Math.max(2, Math.floor(sampleRate / (options.maxFrequency ?? 4000)))
+  const maxLag = Math.ceil(sampleRate / (options.minFrequency ?? 30))
+  const span = FRAME_SIZE + maxLag + 2
+
+  const region = sustainRegion(data, sampleRate, span)
+  if (!region) return null
+
+  const frames = Math.min(MAX_FRAMES, 1 + Math.floor((region.end - region.start - span) / (span / 2)))
+  const estimates: PeriodEstimate[] = []
+
+  for (let i = 0; i < frames; i++) {
+    const offset = region.start + (frames > 1 ? Math.round(((region.end - region.start - span) * i) / (frames - 1)) : 0)
+    const estimate = options.method === "mpm" ? mpm(data, offset, minLag, maxLag) : yin(data, offset, minLag, maxLag)
+    if (estimate) estimates.push(estimate)
   }
 
-  // Convert frequency to MIDI note number
-  const midiNote = 69 + 12 * Math.log2(peakFreq / 440.0)
-  const midiNoteInt = Math.round(midiNote)
-  const noteName = NOTE_NAMES[midiNoteInt % 12]
-  const octave = Math.floor(midiNoteInt / 12) - 1
+  if (estimates.length === 0) return null
+
+  // Compare estimates as notes so an octave error counts the same at any pitch
+  const notes = estimates.map((estimate) => frequencyToMidi(sampleRate / estimate.period))
+  const median = notes.slice().sort((a, b) => a - b)[Math.floor(notes.length / 2)]
+  const agreeing = estimates.filter((_, index) => Math.abs(notes[index] - median) <= 0.5)
+  const agreeingNotes = notes.filter((note) => Math.abs(note - median) <= 0.5)
+
+  const clarity = agreeing.reduce((sum, estimate) => sum + estimate.clarity, 0) / agreeing.length
+  const midi = agreeingNotes.reduce((sum, note) => sum + note, 0) / agreeingNotes.length
+  const midiNote = Math.round(midi)
 
   return {
-    frequency: peakFreq,
-    midiNote: midiNoteInt,
-    note: `${noteName}${octave}`,
+    frequency: 440 * Math.pow(2, (midi - 69) / 12),
+    midiNote,
+    note: midiToNoteName(midiNote),
+    cents: Math.round((midi - midiNote) * 100),
+    confidence: Math.max(0, Math.min(1, clarity * (agreeing.length / frames))),
   }
 }
 
-function applyWindow(data: Float32Array): Float32Array {
-  const result = new Float32Array(data.length)
+export function frequencyToMidi(frequency: number): number {
+  return 69 + 12 * Math.log2(frequency / 440)
+}
+
+export function midiToNoteName(midiNote: number): string {
+  const octave = Math.floor(midiNote / 12) - 1
+  return `${NOTE_NAMES[((midiNote % 12) + 12) % 12]}${octave}`
+}
 
-  // Apply Hamming window
-  for (let i = 0; i < data.length; i++) {
-    const windowValue = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (data.length - 1))
-    result[i] = data[i] * windowValue
+/**
+ * Finds the part of the sample after the attack where the level holds up, at least span frames long
+ */
+function sustainRegion(data: Float32Array, sampleRate: number, span: number): { start: number; end: number } | null {
+  if (data.length < span) return null
+
+  const envelope: number[] = []
+  for (let offset = 0; offset < data.length; offset += ENVELOPE_HOP) {
+    const end = Math.min(data.length, offset + ENVELOPE_HOP)
+    let energy = 0
+    for (let i = offset; i < end; i++) {
+      energy += data[i] * data[i]
+    }
+    envelope.push(Math.sqrt(energy / (end - offset)))
   }
 
-  return result
+  let peak = 0
+  for (let i = 1; i < envelope.length; i++) {
+    if (envelope[i] > envelope[peak]) peak = i
+  }
+  if (envelope[peak] === 0) return null
+
+  let last = peak
+  while (last + 1 < envelope.length && envelope[last + 1] >= envelope[peak] * SUSTAIN_FLOOR) last++
+
+  let start = (peak + 1) * ENVELOPE_HOP + Math.round(ATTACK_SKIP * sampleRate)
+  let end = Math.min(data.length, (last + 1) * ENVELOPE_HOP)
+
+  // Short or fast-decaying samples reach back into the attack rather than giving up
+  if (end - start < span) start = Math.max(0, end - span)
+  if (end - start < span) end = Math.min(data.length, start + span)
+
+  return { start, end }
 }
 
-function performFFT(data: Float32Array): Float32Array {
-  // This is a simplified FFT implementation
-  // In a real application, you would use a library like DSP.js
+/**
+ * YIN: the first dip of the cumulative mean normalized difference below the threshold
+ */
+function yin(data: Float32Array, offset: number, minLag: number, maxLag: number): PeriodEstimate | null {
+  const normalized = new Float32Array(maxLag + 2)
+  normalized[0] = 1
+  let runningSum = 0
+
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let difference = 0
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const delta = data[offset + i] - data[offset + i + lag]
+      difference += delta * delta
+    }
 
-  // For now, we'll use the Web Audio API's AnalyserNode for FFT
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)()
-  const analyser = audioContext.createAnalyser()
-  analyser.fftSize = data.length * 2
+    runningSum += difference
+    normalized[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1
+  }
 
-  const bufferSource = audioContext.createBufferSource()
-  const buffer = audioContext.createBuffer(1, data.length, audioContext.sampleRate)
-  buffer.getChannelData(0).set(data)
-  bufferSource.buffer = buffer
+  let best = -1
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (normalized[lag] < YIN_THRESHOLD) {
+      while (lag + 1 <= maxLag && normalized[lag + 1] < normalized[lag]) lag++
+      best = lag
+      break
+    }
+  }
 
-  bufferSource.connect(analyser)
+  // Without a dip under the threshold fall back to the deepest one, which scores a low clarity
+  if (best < 0) {
+    best = minLag
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (normalized[lag] < normalized[best]) best = lag
+    }
+  }
 
-  const fftResult = new Float32Array(analyser.frequencyBinCount)
-  analyser.getFloatFrequencyData(fftResult)
+  const clarity = 1 - normalized[best]
+  if (clarity <= 0) return null
 
-  return fftResult
+  return { period: best + parabolicOffset(normalized, best), clarity: Math.min(1, clarity) }
 }
 
-function findPeakFrequency(
-  fftResult: Float32Array,
-  sampleRate: number,
-  dataLength: number,
-): { peakFreq: number; magnitude: number } {
-  let maxMagnitude = Number.NEGATIVE_INFINITY
-  let peakIndex = 0
-
-  // Find the peak in the FFT result
-  for (let i = 0; i < fftResult.length; i++) {
-    if (fftResult[i] > maxMagnitude) {
-      maxMagnitude = fftResult[i]
-      peakIndex = i
+/**
+ * McLeod Pitch Method: the first key maximum of the normalized square difference close to the highest one
+ */
+function mpm(data: Float32Array, offset: number, minLag: number, maxLag: number): PeriodEstimate | null {
+  const nsdf = new Float32Array(maxLag + 2)
+
+  for (let lag = 0; lag <= maxLag + 1; lag++) {
+    let correlation = 0
+    let energy = 0
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const x = data[offset + i]
+      const y = data[offset + i + lag]
+      correlation += x * y
+      energy += x * x + y * y
     }
+    nsdf[lag] = energy > 0 ? (2 * correlation) / energy : 0
   }
 
-  // Convert index to frequency
-  const peakFreq = (peakIndex * sampleRate) / dataLength
+  // One key maximum per positive region, starting after the first negative zero crossing
+  const keyMaxima: number[] = []
+  let lag = 1
+  while (lag <= maxLag && nsdf[lag] > 0) lag++
+
+  for (; lag <= maxLag; lag++) {
+    if (nsdf[lag] <= 0 || nsdf[lag - 1] > 0) continue
+
+    let peak = lag
+    while (lag <= maxLag && nsdf[lag] > 0) {
+      if (nsdf[lag] > nsdf[peak]) peak = lag
+      lag++
+    }
+    if (peak >= minLag && peak <= maxLag) keyMaxima.push(peak)
+  }
+
+  if (keyMaxima.length === 0) return null
+
+  const highest = keyMaxima.reduce((max, index) => Math.max(max, nsdf[index]), 0)
+  if (highest <= 0) return null
+
+  const best = keyMaxima.find((index) => nsdf[index] >= MPM_PEAK_RATIO * highest) ?? keyMaxima[0]
+  return { period: best + parabolicOffset(nsdf, best), clarity: Math.min(1, nsdf[best]) }
+}
+
+/**
+ * Sub-frame offset of the turning point of a parabola through the index and its neighbours
+ */
+function parabolicOffset(values: Float32Array, index: number): number {
+  if (index <= 0 || index >= values.length - 1) return 0
+
+  const previous = values[index - 1]
+  const current = values[index]
+  const next = values[index + 1]
+  const denominator = previous - 2 * current + next
 
-  return { peakFreq, magnitude: maxMagnitude }
+  return denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (previous - next) / (2 * denominator))) : 0
 }
@@ -1,5 +1,6 @@
 import { XPMWriter } from "./xpm-writer"
 import { detectPitch } from "./pitch-detection"
+import { tokenizeFilename } from "./filename-tokenizer"
 import SampleManager, { type Sample } from "../sample-manager"
 
 export interface PresetOptions {
@@ -68,13 +69,8 @@ export class PresetGenerator {
     const analyzedSamples: { sample: Sample; midiNote: number | null }[] = []
 
     for (const sample of samples) {
-      let midiNote: number | null = null
-
       // Try to extract note from filename first
-      const noteFromFilename = this.extractNoteFromFilename(sample.name)
-      if (noteFromFilename) {
-        midiNote = this.noteToMidi(noteFromFilename)
-      }
+      let midiNote = tokenizeFilename(sample.name).note
 
       // If we couldn't get note from filename and we have a buffer, try pitch detection
       if (midiNote === null && sample.buffer) {
@@ -149,43 +145,4 @@ export class PresetGenerator {
     // Create a blob with the XPM content
     return new Blob([xpmContent], { type: "text/plain" })
   }
-
-  private extractNoteFromFilename(filename: string): string | null {
-    const match = /([A-Ga-g][#b]?[0-9])/.exec(filename)
-    return match ? match[1].toUpperCase() : null
-  }
-
-  private noteToMidi(noteName: string): number {
-    const noteMap: { [key: string]: number } = {
-      C: 0,
-      "C#": 1,
-      Db: 1,
-      D: 2,
-      "D#": 3,
-      Eb: 3,
-      E: 4,
-      F: 5,
-      "F#": 6,
-      Gb: 6,
-      G: 7,
-      "G#": 8,
-      Ab: 8,
-      A: 9,
-      "A#": 10,
-      Bb: 10,
-      B: 11,
-    }
-
-    // Extract note and octave
-    const noteRegex = /([A-G][#b]?)([0-9])/i
-    const match = noteRegex.exec(noteName)
-
-    if (!match) return 60 // Default to middle C
-
-    const note = match[1].toUpperCase()
-    const octave = Number.parseInt(match[2], 10)
-
-    // Calculate MIDI note number
-    return (octave + 1) * 12 + (noteMap[note] || 0)
-  }
 }
@@ -0,0 +1,131 @@
+import type { PadAssignment, Sample } from "../sample-manager"
+import type { SequencerState } from "../sequencer"
+import type { DrumKit } from "./drumkit-service"
+import type { Instrument } from "./instrument-service"
+
+// A project file is JSON holding the whole workspace. Audio is stored as raw 32-bit float channel data so a
+// project reopens exactly as it was saved, encoded as base64 in the file and kept binary in the autosave.
+
+export const PROJECT_FORMAT = "mpc-fixer-project"
+export const PROJECT_VERSION = 1
+export const PROJECT_EXTENSION = ".mpcproj"
+
+export interface ProjectAudio {
+  sampleRate: number
+  channels: Float32Array[]
+}
+
+// Samples keep their edit list and the unedited audio it renders from, so edits stay undoable after a reload
+export type ProjectSample = Omit<Sample, "buffer" | "originalBuffer"> & {
+  audio: ProjectAudio | null
+  originalAudio?: ProjectAudio | null
+}
+
+export interface Project {
+  format: typeof PROJECT_FORMAT
+  version: number
+  name: string
+  savedAt: string // ISO 8601
+  samples: ProjectSample[]
+  padAssignments: PadAssignment[]
+  drumKits: DrumKit[]
+  currentKitId?: string | null
+  instruments: Instrument[]
+  currentInstrumentId?: string | null
+  sequencer: SequencerState
+  midiPadMappings: [number, number][] // MIDI note, pad ID
+}
+
+// Key marking a Float32Array encoded as base64 in the JSON
+const FLOAT32_KEY = "$float32"
+
+// Bytes converted per String.fromCharCode call, below the engines' argument limits
+const BASE64_CHUNK = 0x8000
+
+export function serializeProject(project: Project): string {
+  return JSON.stringify(project, (_, value) =>
+    value instanceof Float32Array
+      ? { [FLOAT32_KEY]: encodeBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)) }
+      : value,
+  )
+}
+
+/**
+ * Reads a project file, throwing when it is not a project or was saved by a newer version
+ */
+export function parseProject(text: string): Project {
+  let project: Project
+  try {
+    project = JSON.parse(text, (_, value) =>
+      value && typeof value === "object" && typeof value[FLOAT32_KEY] === "string"
+        ? new Float32Array(decodeBase64(value[FLOAT32_KEY]).buffer)
+        : value,
+    )
+  } catch (error) {
+    throw new Error(`Not a valid project file: ${error instanceof Error ? error.message : error}`)
+  }
+
+  return validateProject(project)
+}
+
+/**
+ * Checks that a parsed or stored project has every part of the workspace, so loading it cannot stop half way.
+ * Throws when it is not a project or was saved by a newer version.
+ */
+export function validateProject(value: unknown): Project {
+  const project = value as Project
+  if (!project || typeof project !== "object" || project.format !== PROJECT_FORMAT) {
+    throw new Error("Not a valid project file")
+  }
+  if (project.version > PROJECT_VERSION) {
+    throw new Error(`The project was saved by a newer version (format ${project.version})`)
+  }
+
+  const invalid = (part: string) => new Error(`Not a valid project file: ${part} are missing or invalid`)
+
+  if (!Array.isArray(project.samples)) throw invalid("samples")
+  for (const sample of project.samples) {
+    if (!sample || typeof sample.id !== "string" || !isProjectAudio(sample.audio, false)) throw invalid("samples")
+    if (!isProjectAudio(sample.originalAudio, true)) throw invalid("samples")
+  }
+
+  if (!Array.isArray(project.padAssignments)) throw invalid("pad assignments")
+  if (!Array.isArray(project.drumKits)) throw invalid("drum kits")
+  if (!Array.isArray(project.instruments)) throw invalid("instruments")
+  if (!Array.isArray(project.midiPadMappings)) throw invalid("MIDI pad mappings")
+
+  const sequencer = project.sequencer
+  if (!sequencer || !Array.isArray(sequencer.patterns) || typeof sequencer.tempo !== "number") {
+    throw invalid("patterns")
+  }
+
+  return project
+}
+
+function isProjectAudio(audio: ProjectAudio | null | undefined, optional: boolean): boolean {
+  if (audio === null || (optional && audio === undefined)) return true
+  if (!audio || typeof audio.sampleRate !== "number" || !Array.isArray(audio.channels)) return false
+
+  const length = audio.channels[0]?.length
+  return (
+    audio.channels.length > 0 &&
+    audio.channels.every((channel) => channel instanceof Float32Array && channel.length === length)
+  )
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, offset + BASE64_CHUNK)))
+  }
+  return btoa(binary)
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
@@ -0,0 +1,338 @@
+import AudioContextManager from "../audio-context"
+import MIDIController from "../midi-controller"
+import SampleManager from "../sample-manager"
+import Sequencer from "../sequencer"
+import DrumKitService from "./drumkit-service"
+import InstrumentService from "./instrument-service"
+import HistoryService from "./history-service"
+import { sanitizeFilename } from "./mpc-filename"
+import {
+  PROJECT_EXTENSION,
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  parseProject,
+  serializeProject,
+  validateProject,
+  type Project,
+  type ProjectAudio,
+} from "./project-file"
+
+// The autosave is a single project record in IndexedDB
+const AUTOSAVE_DATABASE = "mpc-fixer"
+const AUTOSAVE_STORE = "projects"
+const AUTOSAVE_KEY = "autosave"
+const FAILED_AUTOSAVE_KEY = "autosave-failed" // where an autosave that could not be restored is kept
+const AUTOSAVE_INTERVAL = 30000 // milliseconds
+
+const DEFAULT_PROJECT_NAME = "Untitled Project"
+
+// The parts of the File System Access API used to save projects, which not every browser or DOM typing has
+interface SaveFilePickerOptions {
+  suggestedName?: string
+  types?: { description?: string; accept: Record<string, string[]> }[]
+}
+
+interface ProjectFileHandle {
+  createWritable(): Promise<{ write(data: string): Promise<void>; close(): Promise<void> }>
+}
+
+type SaveFilePicker = (options: SaveFilePickerOptions) => Promise<ProjectFileHandle>
+
+class ProjectService {
+  private static instance: ProjectService
+  private audioContext: AudioContextManager
+  private name = DEFAULT_PROJECT_NAME
+  private fileHandle: ProjectFileHandle | null = null // handle the project was last saved to
+  private autosaveId: number | null = null
+  private lastAutosave: Date | null = null
+  private lastAutosaveState: string | null = null
+  private restoreError: string | null = null
+
+  private constructor() {
+    this.audioContext = AudioContextManager.getInstance()
+  }
+
+  public static getInstance(): ProjectService {
+    if (!ProjectService.instance) {
+      ProjectService.instance = new ProjectService()
+    }
+    return ProjectService.instance
+  }
+
+  public getProjectName(): string {
+    return this.name
+  }
+
+  public setProjectName(name: string): void {
+    this.name = name.trim() || DEFAULT_PROJECT_NAME
+  }
+
+  public getLastAutosave(): Date | null {
+    return this.lastAutosave
+  }
+
+  /**
+   * Why the autosaved session could not be restored, or null when it was restored or there was none
+   */
+  public getRestoreError(): string | null {
+    return this.restoreError
+  }
+
+  /**
+   * Captures samples, pad assignments, drum kits, instruments, patterns and MIDI pad mappings
+   */
+  public createProject(): Project {
+    const sampleState = SampleManager.getInstance().exportState()
+    const kitState = DrumKitService.getInstance().exportState()
+    const instrumentState = InstrumentService.getInstance().exportState()
+
+    return {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      name: this.name,
+      savedAt: new Date().toISOString(),
+      samples: sampleState.samples.map(({ buffer, originalBuffer, ...sample }) => ({
+        ...sample,
+        audio: buffer ? toProjectAudio(buffer) : null,
+        originalAudio: originalBuffer ? toProjectAudio(originalBuffer) : null,
+      })),
+      padAssignments: sampleState.padAssignments,
+      drumKits: kitState.kits,
+      currentKitId: kitState.currentKitId,
+      instruments: instrumentState.instruments,
+      currentInstrumentId: instrumentState.currentInstrumentId,
+      sequencer: Sequencer.getInstance().exportState(),
+      midiPadMappings: MIDIController.getInstance().exportState().padMappings,
+    }
+  }
+
+  /**
+   * Replaces the whole workspace with the project. Nothing is replaced when the project cannot be loaded.
+   */
+  public loadProject(project: Project): void {
+    validateProject(project)
+
+    const context = this.audioContext.getContext()
+    if (!context) {
+      throw new Error("Audio is unavailable, the project's samples cannot be restored")
+    }
+
+    const toBuffer = (audio: ProjectAudio): AudioBuffer => {
+      const buffer = context.createBuffer(audio.channels.length, audio.channels[0].length, audio.sampleRate)
+      audio.channels.forEach((data, channel) => buffer.copyToChannel(data, channel))
+      return buffer
+    }
+
+    // Audio is decoded before anything is replaced, as it is what fails on a damaged project
+    const samples = project.samples.map(({ audio, originalAudio, ...sample }) => ({
+      ...sample,
+      buffer: audio ? toBuffer(audio) : null,
+      originalBuffer: originalAudio ? toBuffer(originalAudio) : null,
+      isLoaded: !!audio,
+    }))
+
+    SampleManager.getInstance().importState({ samples, padAssignments: project.padAssignments })
+    const sequencer = Sequencer.getInstance()
+    sequencer.stop()
+
+    DrumKitService.getInstance().importState({ kits: project.drumKits, currentKitId: project.currentKitId })
+    InstrumentService.getInstance().importState({
+      instruments: project.instruments,
+      currentInstrumentId: project.currentInstrumentId,
+    })
+    sequencer.importState(project.sequencer)
+    MIDIController.getInstance().importState({ padMappings: project.midiPadMappings })
+
+    this.name = project.name || DEFAULT_PROJECT_NAME
+
+    // Undoing past the load would mix the two workspaces
+    HistoryService.getInstance().clear()
+  }
+
+  public async openProject(file: File): Promise<void> {
+    this.loadProject(parseProject(await file.text()))
+    this.fileHandle = null
+  }
+
+  /**
+   * Saves over the file the project was last saved to, asking for a location the first time
+   */
+  public async saveProject(): Promise<void> {
+    if (!this.fileHandle) {
+      return this.saveProjectAs()
+    }
+
+    await this.writeToHandle(this.fileHandle)
+  }
+
+  /**
+   * Asks where to save the project where the browser allows it, otherwise downloads it
+   */
+  public async saveProjectAs(): Promise<void> {
+    const filename = sanitizeFilename(`${this.name}${PROJECT_EXTENSION}`)
+    const picker =
+      typeof window !== "undefined"
+        ? (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+        : undefined
+
+    if (!picker) {
+      const url = URL.createObjectURL(new Blob([serializeProject(this.createProject())], { type: "application/json" }))
+      const a = document.createElement("a")
+      a.href = url
+      a.download = filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+      return
+    }
+
+    const handle = await picker({
+      suggestedName: filename,
+      types: [{ description: "MPC Fixer project", accept: { "application/json": [PROJECT_EXTENSION] } }],
+    })
+    await this.writeToHandle(handle)
+    this.fileHandle = handle
+  }
+
+  /**
+   * Saves the workspace to IndexedDB every interval while it keeps changing, and when the page is hidden
+   */
+  public startAutosave(interval = AUTOSAVE_INTERVAL): void {
+    if (this.autosaveId !== null) return
+
+    this.autosaveId = window.setInterval(() => this.autosave(), interval)
+    document.addEventListener("visibilitychange", this.handleVisibilityChange)
+  }
+
+  public stopAutosave(): void {
+    if (this.autosaveId === null) return
+
+    clearInterval(this.autosaveId)
+    this.autosaveId = null
+    document.removeEventListener("visibilitychange", this.handleVisibilityChange)
+  }
+
+  /**
+   * Writes the workspace to the autosave unless nothing changed since the last one. Returns whether it saved.
+   */
+  public async autosave(): Promise<boolean> {
+    const project = this.createProject()
+    const state = describeState(project)
+    if (state === this.lastAutosaveState) return false
+
+    try {
+      const database = await openDatabase()
+      const store = database.transaction(AUTOSAVE_STORE, "readwrite").objectStore(AUTOSAVE_STORE)
+      await requestResult(store.put(project, AUTOSAVE_KEY))
+      database.close()
+
+      this.lastAutosaveState = state
+      this.lastAutosave = new Date()
+      return true
+    } catch (error) {
+      console.error("Failed to autosave project:", error)
+      return false
+    }
+  }
+
+  /**
+   * Restores the last autosaved session, returning whether there was one to restore. A session that cannot be
+   * restored is moved to a backup record so autosaving can carry on, and throws only when it could not be moved.
+   */
+  public async restoreAutosave(): Promise<boolean> {
+    let project: Project | undefined
+
+    try {
+      const database = await openDatabase()
+      const store = database.transaction(AUTOSAVE_STORE, "readonly").objectStore(AUTOSAVE_STORE)
+      project = await requestResult(store.get(AUTOSAVE_KEY))
+      database.close()
+
+      if (!project) return false
+
+      this.loadProject(project)
+      this.lastAutosaveState = describeState(project)
+      this.lastAutosave = new Date(project.savedAt)
+      this.restoreError = null
+      return true
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+
+      if (project && (await this.moveFailedAutosave(project))) {
+        this.restoreError = `The autosaved session could not be restored and was kept as a backup: ${reason}`
+        console.error(this.restoreError)
+        return false
+      }
+
+      this.restoreError = `The autosaved session could not be restored, so autosave is off: ${reason}`
+      throw new Error(this.restoreError)
+    }
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      this.autosave()
+    }
+  }
+
+  /**
+   * Moves an autosave that could not be restored to the backup record, returning whether it moved
+   */
+  private async moveFailedAutosave(project: Project): Promise<boolean> {
+    try {
+      const database = await openDatabase()
+      const store = database.transaction(AUTOSAVE_STORE, "readwrite").objectStore(AUTOSAVE_STORE)
+      await requestResult(store.put(project, FAILED_AUTOSAVE_KEY))
+      await requestResult(store.delete(AUTOSAVE_KEY))
+      database.close()
+      return true
+    } catch (error) {
+      console.error("Failed to move the autosave that could not be restored:", error)
+      return false
+    }
+  }
+
+  private async writeToHandle(handle: ProjectFileHandle): Promise<void> {
+    const writable = await handle.createWritable()
+    await writable.write(serializeProject(this.createProject()))
+    await writable.close()
+  }
+}
+
+function toProjectAudio(buffer: AudioBuffer): ProjectAudio {
+  return {
+    sampleRate: buffer.sampleRate,
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel)),
+  }
+}
+
+/**
+ * Everything about the project except its audio and save time, to tell whether anything changed.
+ * Audio is only ever replaced along with a sample's ID or edit list, so those stand in for it.
+ */
+function describeState(project: Project): string {
+  return JSON.stringify({
+    ...project,
+    savedAt: null,
+    samples: project.samples.map(({ audio, originalAudio, ...sample }) => sample),
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(AUTOSAVE_DATABASE, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(AUTOSAVE_STORE)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export default ProjectService
@@ -1,5 +1,8 @@
 import type { Sample } from "../sample-manager"
 import AudioContextManager from "../audio-context"
+import { mixChannels } from "./wav-encoder"
+import { analyzePitch, type PitchDetectionOptions, type PitchInfo } from "./pitch-detection"
+import { noteNameToMidi, tokenizeFilename } from "./filename-tokenizer"
 
 export interface SampleAnalysis {
   id: string
@@ -12,11 +15,7 @@ export interface SampleAnalysis {
   rmsAmplitude: number
   crestFactor: number
   zeroCrossings: number
-  estimatedPitch?: {
-    frequency: number
-    note: string
-    midiNote: number
-  }
+  estimatedPitch?: PitchInfo
   format: string
   valid: boolean
   error?: string
@@ -41,7 +40,7 @@ export class SampleAnalyzer {
   /**
    * Analyzes an audio sample to extract its properties
    */
-  public analyzeSample(sample: Sample): SampleAnalysis {
+  public analyzeSample(sample: Sample, pitchOptions: PitchDetectionOptions = {}): SampleAnalysis {
     if (!sample.buffer) {
       return {
         id: sample.id,
@@ -68,13 +67,13 @@ export class SampleAnalyzer {
       const format = this.detectFormatFromFilename(sample.name)
 
       // Try to estimate pitch
-      const estimatedPitch = this.estimatePitch(sample.buffer)
+      const estimatedPitch = this.estimatePitch(sample.buffer, pitchOptions)
 
       return {
         id: sample.id,
         name: sample.name,
         channels: sample.buffer.numberOfChannels,
-        sampleWidth: 16, // Web Audio API typically uses 32-bit float, but we'll report 16-bit for compatibility
+        sampleWidth: sample.bitDepth || 16, // decoded buffers are float, so report the source file's bit depth
         sampleRate: sample.buffer.sampleRate,
         duration: sample.buffer.duration,
         peakAmplitude: stats.peak,
@@ -107,16 +106,18 @@ export class SampleAnalyzer {
   /**
    * Analyzes multiple samples and returns their properties
    */
-  public analyzeSamples(samples: Sample[]): SampleAnalysis[] {
-    return samples.map((sample) => this.analyzeSample(sample))
+  public analyzeSamples(samples: Sample[], pitchOptions: PitchDetectionOptions = {}): SampleAnalysis[] {
+    return samples.map((sample) => this.analyzeSample(sample, pitchOptions))
   }
 
   /**
    * Finds samples that match a specific note (e.g., C3)
    */
   public findSamplesByNote(samples: Sample[], noteName: string): Sample[] {
-    const upperNoteName = noteName.toUpperCase()
-    return samples.filter((sample) => sample.name.toUpperCase().includes(upperNoteName))
+    const midiNote = noteNameToMidi(noteName)
+    if (midiNote === null) return []
+
+    return samples.filter((sample) => (sample.rootNote ?? tokenizeFilename(sample.name).note) === midiNote)
   }
 
   /**
@@ -241,27 +242,12 @@ export class SampleAnalyzer {
   }
 
   /**
-   * Estimates the fundamental pitch of a sample
+   * Estimates the fundamental pitch of a sample from its sustain, with the detector's confidence
    */
-  private estimatePitch(buffer: AudioBuffer): { frequency: number; note: string; midiNote: number } | undefined {
+  private estimatePitch(buffer: AudioBuffer, options: PitchDetectionOptions): PitchInfo | undefined {
     try {
-      // Simple pitch estimation using zero-crossing rate
-      const data = buffer.getChannelData(0)
-      const zeroCrossings = this.countZeroCrossings(data)
-
-      // Estimate frequency from zero crossings
-      // This is a very basic method and not very accurate
-      const estimatedFrequency = (zeroCrossings / 2) * (buffer.sampleRate / data.length)
-
-      // Convert frequency to MIDI note and note name
-      const midiNote = this.frequencyToMidi(estimatedFrequency)
-      const noteName = this.midiToNoteName(midiNote)
-
-      return {
-        frequency: estimatedFrequency,
-        note: noteName,
-        midiNote,
-      }
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+      return analyzePitch(mixChannels(channels, 1)[0], buffer.sampleRate, options) || undefined
     } catch (error) {
       console.error("Error estimating pitch:", error)
       return undefined
@@ -285,23 +271,6 @@ export class SampleAnalyzer {
     return zeroCrossings
   }
 
-  /**
-   * Converts frequency to MIDI note number
-   */
-  private frequencyToMidi(frequency: number): number {
-    return Math.round(69 + 12 * Math.log2(frequency / 440))
-  }
-
-  /**
-   * Converts MIDI note number to note name
-   */
-  private midiToNoteName(midiNote: number): string {
-    const noteNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"]
-    const octave = Math.floor(midiNote / 12) - 1
-    const noteName = noteNames[midiNote % 12]
-    return `${noteName}${octave}`
-  }
-
   /**
    * Detects audio format from filename
    */
@@ -0,0 +1,165 @@
+import { magnitudeSpectrum } from "./fft"
+
+// Slice markers are the frames where each slice after the first begins; the first slice always starts at 0
+
+export type OnsetMethod = "energy" | "spectralFlux"
+
+export interface OnsetOptions {
+  method?: OnsetMethod // defaults to spectral flux
+  sensitivity?: number // 0-1, higher finds quieter onsets, defaults to 0.5
+  minInterval?: number // milliseconds between onsets, defaults to 50
+}
+
+export type SliceMode =
+  | { type: "onsets"; options?: OnsetOptions }
+  | { type: "equal"; count: number }
+  | { type: "tempo"; bpm: number; divisionsPerBeat?: number }
+
+// Analysis frames in samples
+const FRAME_SIZE = 1024
+const HOP_SIZE = 256
+
+// Frames either side used for the adaptive threshold
+const THRESHOLD_RADIUS = 8
+
+/**
+ * Places slice markers on the onsets in the audio, an equal division or a tempo grid
+ */
+export function findSliceMarkers(data: Float32Array, sampleRate: number, mode: SliceMode): number[] {
+  switch (mode.type) {
+    case "equal":
+      return equalDivisions(data.length, mode.count)
+    case "tempo":
+      return tempoGrid(data.length, sampleRate, mode.bpm, mode.divisionsPerBeat)
+    case "onsets":
+      return detectOnsets(data, sampleRate, mode.options)
+  }
+}
+
+/**
+ * Detects onsets from the rise in frame energy or spectral flux, picking peaks above an adaptive threshold
+ */
+export function detectOnsets(data: Float32Array, sampleRate: number, options: OnsetOptions = {}): number[] {
+  const sensitivity = Math.max(0, Math.min(1, options.sensitivity ?? 0.5))
+  const minInterval = Math.round(((options.minInterval ?? 50) * sampleRate) / 1000)
+  const novelty = options.method === "energy" ? energyNovelty(data) : spectralFluxNovelty(data)
+
+  const peak = novelty.reduce((max, value) => Math.max(max, value), 0)
+  if (peak === 0) return []
+
+  const normalized = novelty.map((value) => value / peak)
+  const delta = 0.05 + (1 - sensitivity) * 0.4
+  const onsets: number[] = []
+
+  for (let i = 1; i < normalized.length - 1; i++) {
+    const value = normalized[i]
+    if (value < normalized[i - 1] || value < normalized[i + 1]) continue
+
+    const from = Math.max(0, i - THRESHOLD_RADIUS)
+    const to = Math.min(normalized.length, i + THRESHOLD_RADIUS + 1)
+    const mean = normalized.slice(from, to).reduce((sum, v) => sum + v, 0) / (to - from)
+    if (value < mean + delta) continue
+
+    const position = refineOnset(data, i * HOP_SIZE)
+    if (position === 0) continue
+
+    if (onsets.length === 0 || position - onsets[onsets.length - 1] >= minInterval) {
+      onsets.push(position)
+    }
+  }
+
+  return onsets
+}
+
+/**
+ * Splits the sample into equal slices
+ */
+export function equalDivisions(length: number, count: number): number[] {
+  const markers: number[] = []
+  for (let i = 1; i < count; i++) {
+    markers.push(Math.round((length * i) / count))
+  }
+  return markers
+}
+
+/**
+ * Places a marker on every grid step at the tempo, e.g. 4 divisions per beat for 16th notes
+ */
+export function tempoGrid(length: number, sampleRate: number, bpm: number, divisionsPerBeat = 1): number[] {
+  if (bpm <= 0 || divisionsPerBeat <= 0) return []
+
+  const step = (60 / bpm / divisionsPerBeat) * sampleRate
+  const markers: number[] = []
+  for (let position = step; position < length; position += step) {
+    markers.push(Math.round(position))
+  }
+  return markers
+}
+
+/**
+ * Turns markers into sorted, de-duplicated [start, end) slice ranges covering the whole sample
+ */
+export function sliceRanges(markers: number[], length: number): { start: number; end: number }[] {
+  const starts = Array.from(new Set([0, ...markers.map(Math.round)]))
+    .filter((position) => position >= 0 && position < length)
+    .sort((a, b) => a - b)
+
+  return starts.map((start, index) => ({ start, end: index < starts.length - 1 ? starts[index + 1] : length }))
+}
+
+/**
+ * Moves an onset from the start of its analysis frame to where the attack rises within the frame
+ */
+function refineOnset(data: Float32Array, frameStart: number): number {
+  const end = Math.min(data.length, frameStart + FRAME_SIZE)
+  let peak = 0
+  for (let i = frameStart; i < end; i++) {
+    peak = Math.max(peak, Math.abs(data[i]))
+  }
+
+  for (let i = frameStart; i < end; i++) {
+    if (Math.abs(data[i]) >= peak * 0.3) return i
+  }
+
+  return frameStart
+}
+
+function energyNovelty(data: Float32Array): number[] {
+  const novelty: number[] = []
+  let previous = 0
+
+  for (let offset = 0; offset + FRAME_SIZE <= data.length; offset += HOP_SIZE) {
+    let energy = 0
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      energy += data[offset + i] * data[offset + i]
+    }
+
+    // Log energy so quiet hits register next to loud ones
+    const level = Math.log(1 + 1000 * energy)
+    novelty.push(Math.max(0, level - previous))
+    previous = level
+  }
+
+  return novelty
+}
+
+function spectralFluxNovelty(data: Float32Array): number[] {
+  const novelty: number[] = []
+  let previous: Float32Array | null = null
+
+  for (let offset = 0; offset + FRAME_SIZE <= data.length; offset += HOP_SIZE) {
+    const spectrum = magnitudeSpectrum(data, offset, FRAME_SIZE)
+    let flux = 0
+
+    if (previous) {
+      for (let i = 0; i < spectrum.length; i++) {
+        flux += Math.max(0, spectrum[i] - previous[i])
+      }
+    }
+
+    novelty.push(flux)
+    previous = spectrum
+  }
+
+  return novelty
+}
@@ -1,5 +1,15 @@
 import AudioContextManager from "../audio-context"
-import SampleManager, { type Sample } from "../sample-manager"
+import SampleManager, { type Sample, type SampleCue, type SampleLoop } from "../sample-manager"
+import {
+  createSampleEdit,
+  renderSampleEdits,
+  type RenderedAudio,
+  type SampleEdit,
+  type SampleEditOperation,
+} from "./sample-edits"
+import { findLoopCandidates, type LoopCandidate } from "./loop-engine"
+import { findSliceMarkers, sliceRanges, type SliceMode } from "./sample-chopper"
+import { encodeWAV, mixChannels, type WAVEncodeOptions } from "./wav-encoder"
 
 export interface EditedSample {
   id: string
@@ -11,7 +21,14 @@ export class SampleEditor {
   private audioContext: AudioContextManager
   private sampleManager: SampleManager
   private sample: Sample
+  private originalBuffer: AudioBuffer | null
   private audioBuffer: AudioBuffer | null
+  private edits: SampleEdit[]
+  private undoStack: SampleEdit[][] = []
+  private redoStack: SampleEdit[][] = []
+  private offset = 0 // frames the current render removed from the start of the original
+  private loop: SampleLoop | null
+  private cues: SampleCue[]
 
   constructor(sampleId: string) {
     this.audioContext = AudioContextManager.getInstance()
@@ -23,181 +40,268 @@ export class SampleEditor {
     }
 
     this.sample = sample
+    this.originalBuffer = sample.originalBuffer || sample.buffer
     this.audioBuffer = sample.buffer
+    this.edits = sample.edits || []
+    this.loop = sample.loop || null
+    this.cues = sample.cues || []
+
+    // Markers are stored against the rendered audio, so find out how far earlier edits moved it
+    if (this.edits.length > 0) {
+      this.offset = this.renderChannels().offset
+    }
   }
 
-  public async normalize(): Promise<void> {
-    if (!this.audioBuffer) return
+  public async normalize(peak = 1.0): Promise<void> {
+    this.addEdit({ type: "normalize", params: { peak } })
+  }
 
-    const context = this.audioContext.getContext()
-    if (!context) return
+  public async trimSilence(silenceThreshold = 0.01, marginSamples = 100): Promise<void> {
+    this.addEdit({ type: "trimSilence", params: { threshold: silenceThreshold, margin: marginSamples } })
+  }
 
-    // Create a new buffer for the normalized audio
-    const normalizedBuffer = context.createBuffer(
-      this.audioBuffer.numberOfChannels,
-      this.audioBuffer.length,
-      this.audioBuffer.sampleRate,
-    )
+  public async fade(fadeInMs = 10, fadeOutMs = 10): Promise<void> {
+    this.addEdit({ type: "fade", params: { fadeIn: fadeInMs, fadeOut: fadeOutMs } })
+  }
 
-    // Process each channel
-    for (let channel = 0; channel < this.audioBuffer.numberOfChannels; channel++) {
-      const inputData = this.audioBuffer.getChannelData(channel)
-      const outputData = normalizedBuffer.getChannelData(channel)
-
-      // Find the maximum amplitude
-      let maxAmplitude = 0
-      for (let i = 0; i < inputData.length; i++) {
-        const absValue = Math.abs(inputData[i])
-        if (absValue > maxAmplitude) {
-          maxAmplitude = absValue
-        }
-      }
+  public getEdits(): SampleEdit[] {
+    return [...this.edits]
+  }
 
-      // Apply normalization
-      const gain = maxAmplitude > 0 ? 1.0 / maxAmplitude : 1.0
-      for (let i = 0; i < inputData.length; i++) {
-        outputData[i] = inputData[i] * gain
-      }
-    }
+  /**
+   * Appends an edit to the end of the edit list and re-renders the audio
+   */
+  public addEdit(operation: SampleEditOperation): SampleEdit {
+    const edit = createSampleEdit(operation)
+    this.changeEdits([...this.edits, edit])
+    return edit
+  }
 
-    this.audioBuffer = normalizedBuffer
+  public removeEdit(editId: string): void {
+    this.changeEdits(this.edits.filter((edit) => edit.id !== editId))
   }
 
-  public async trimSilence(silenceThreshold = 0.01, marginSamples = 100): Promise<void> {
-    if (!this.audioBuffer) return
+  /**
+   * Enables or disables an edit without removing it from the list
+   */
+  public toggleEdit(editId: string): void {
+    this.changeEdits(this.edits.map((edit) => (edit.id === editId ? { ...edit, enabled: !edit.enabled } : edit)))
+  }
 
-    const context = this.audioContext.getContext()
-    if (!context) return
+  /**
+   * Moves an edit to a new position in the list, changing the order edits are rendered in
+   */
+  public moveEdit(editId: string, toIndex: number): void {
+    const fromIndex = this.edits.findIndex((edit) => edit.id === editId)
+    if (fromIndex === -1) return
+
+    const edits = [...this.edits]
+    const [edit] = edits.splice(fromIndex, 1)
+    edits.splice(Math.max(0, Math.min(edits.length, toIndex)), 0, edit)
+    this.changeEdits(edits)
+  }
 
-    // Find start and end points (non-silent)
-    let startSample = 0
-    let endSample = this.audioBuffer.length - 1
+  public canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
 
-    // Process first channel for simplicity
-    const audioData = this.audioBuffer.getChannelData(0)
+  public canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
 
-    // Find start point
-    for (let i = 0; i < audioData.length; i++) {
-      if (Math.abs(audioData[i]) > silenceThreshold) {
-        startSample = Math.max(0, i - marginSamples)
-        break
-      }
-    }
+  /**
+   * Restores the edit list as it was before the last change
+   */
+  public undo(): boolean {
+    const edits = this.undoStack.pop()
+    if (!edits) return false
 
-    // Find end point
-    for (let i = audioData.length - 1; i >= 0; i--) {
-      if (Math.abs(audioData[i]) > silenceThreshold) {
-        endSample = Math.min(audioData.length - 1, i + marginSamples)
-        break
-      }
-    }
+    this.redoStack.push(this.edits)
+    this.setEdits(edits)
+    return true
+  }
 
-    // Create a new buffer with the trimmed audio
-    const trimmedLength = endSample - startSample + 1
-    const trimmedBuffer = context.createBuffer(
-      this.audioBuffer.numberOfChannels,
-      trimmedLength,
-      this.audioBuffer.sampleRate,
-    )
+  public redo(): boolean {
+    const edits = this.redoStack.pop()
+    if (!edits) return false
 
-    // Copy the trimmed portion to the new buffer
-    for (let channel = 0; channel < this.audioBuffer.numberOfChannels; channel++) {
-      const inputData = this.audioBuffer.getChannelData(channel)
-      const outputData = trimmedBuffer.getChannelData(channel)
+    this.undoStack.push(this.edits)
+    this.setEdits(edits)
+    return true
+  }
 
-      for (let i = 0; i < trimmedLength; i++) {
-        outputData[i] = inputData[i + startSample]
-      }
-    }
+  /**
+   * Returns the waveform of the rendered audio, for previewing edits before saving
+   */
+  public getWaveform(): number[] {
+    return this.audioBuffer ? this.generateWaveformData(this.audioBuffer) : []
+  }
 
-    this.audioBuffer = trimmedBuffer
+  private changeEdits(edits: SampleEdit[]): void {
+    this.undoStack.push(this.edits)
+    this.redoStack = []
+    this.setEdits(edits)
   }
 
-  public async fade(fadeInMs = 10, fadeOutMs = 10): Promise<void> {
-    if (!this.audioBuffer) return
+  private setEdits(edits: SampleEdit[]): void {
+    this.edits = edits
+    this.render()
+  }
 
+  /**
+   * Re-renders the audio from the original with the enabled edits, keeping markers on the same audio
+   */
+  private render(): void {
     const context = this.audioContext.getContext()
-    if (!context) return
+    if (!this.originalBuffer || !context) return
+
+    const { channels, offset } = this.renderChannels()
+    const length = channels[0].length
+    const buffer = context.createBuffer(channels.length, Math.max(1, length), this.originalBuffer.sampleRate)
+    channels.forEach((data, channel) => buffer.getChannelData(channel).set(data))
+
+    const shift = this.offset - offset
+    const inRange = (position: number) => position >= 0 && position < length
+    if (this.loop) {
+      const loop = { ...this.loop, start: this.loop.start + shift, end: this.loop.end + shift }
+      this.loop = inRange(loop.start) && inRange(loop.end) ? loop : null
+    }
+    this.cues = this.cues
+      .map((cue) => ({ ...cue, position: cue.position + shift }))
+      .filter((cue) => inRange(cue.position))
+
+    this.audioBuffer = buffer
+    this.offset = offset
+  }
 
-    // Create a new buffer for the faded audio
-    const fadedBuffer = context.createBuffer(
-      this.audioBuffer.numberOfChannels,
-      this.audioBuffer.length,
-      this.audioBuffer.sampleRate,
+  private renderChannels(): RenderedAudio {
+    const original = this.originalBuffer!
+    const channels = Array.from({ length: original.numberOfChannels }, (_, channel) =>
+      original.getChannelData(channel),
     )
 
-    // Calculate fade samples
-    const fadeInSamples = Math.floor((fadeInMs * this.audioBuffer.sampleRate) / 1000)
-    const fadeOutSamples = Math.floor((fadeOutMs * this.audioBuffer.sampleRate) / 1000)
+    return renderSampleEdits(channels, original.sampleRate, this.edits)
+  }
 
-    // Process each channel
-    for (let channel = 0; channel < this.audioBuffer.numberOfChannels; channel++) {
-      const inputData = this.audioBuffer.getChannelData(channel)
-      const outputData = fadedBuffer.getChannelData(channel)
+  /**
+   * Finds the best loop in the sustain and makes it the sample's loop
+   */
+  public async detectLoopPoints(): Promise<{ start: number; end: number } | null> {
+    const [best] = this.findLoopCandidates(1)
+    if (!best) return null
 
-      // Apply fade in
-      for (let i = 0; i < fadeInSamples; i++) {
-        const gain = i / fadeInSamples
-        outputData[i] = inputData[i] * gain
-      }
+    // Kept with the sample on save and written to the WAV smpl chunk on export
+    this.loop = { start: best.start, end: best.end, type: "forward" }
 
-      // Copy the middle part unchanged
-      for (let i = fadeInSamples; i < this.audioBuffer.length - fadeOutSamples; i++) {
-        outputData[i] = inputData[i]
-      }
+    return { start: best.start, end: best.end }
+  }
 
-      // Apply fade out
-      for (let i = 0; i < fadeOutSamples; i++) {
-        const position = this.audioBuffer.length - fadeOutSamples + i
-        const gain = 1 - i / fadeOutSamples
-        outputData[position] = inputData[position] * gain
-      }
-    }
+  /**
+   * Ranks loop regions in the rendered audio, analysing a mono mix of its channels
+   */
+  public findLoopCandidates(maxCandidates = 5): LoopCandidate[] {
+    if (!this.audioBuffer) return []
 
-    this.audioBuffer = fadedBuffer
+    const buffer = this.audioBuffer
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+    return findLoopCandidates(mixChannels(channels, 1)[0], buffer.sampleRate, { maxCandidates })
   }
 
-  public async detectLoopPoints(): Promise<{ start: number; end: number } | null> {
-    if (!this.audioBuffer) return null
+  public getLength(): number {
+    return this.audioBuffer?.length || 0
+  }
 
-    // This is a simplified implementation of loop point detection
-    // In a real implementation, we would use more sophisticated algorithms
+  public getLoop(): SampleLoop | null {
+    return this.loop
+  }
 
-    const audioData = this.audioBuffer.getChannelData(0)
-    const frameMargin = Math.floor(this.audioBuffer.sampleRate * 0.1) // 100ms margin
+  public setLoop(loop: SampleLoop | null): void {
+    this.loop = loop
+  }
 
-    // Find peaks in the audio data
-    const peaks: number[] = []
-    const threshold = 0.5
-    let maxAmplitude = 0
+  public getCues(): SampleCue[] {
+    return [...this.cues]
+  }
 
-    // Find max amplitude
-    for (let i = 0; i < audioData.length; i++) {
-      const absValue = Math.abs(audioData[i])
-      if (absValue > maxAmplitude) {
-        maxAmplitude = absValue
-      }
-    }
+  /**
+   * Replaces the cue markers, which also serve as slice markers for chopping
+   */
+  public setCues(cues: SampleCue[]): void {
+    this.cues = [...cues].sort((a, b) => a.position - b.position)
+  }
+
+  /**
+   * Places slice markers on the rendered audio, analysing a mono mix of its channels
+   */
+  public findSliceMarkers(mode: SliceMode): number[] {
+    if (!this.audioBuffer) return []
+
+    const buffer = this.audioBuffer
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+    return findSliceMarkers(mixChannels(channels, 1)[0], buffer.sampleRate, mode)
+  }
+
+  /**
+   * Cuts the rendered audio at the cue markers and adds each slice to the sample manager as a new sample
+   */
+  public chop(): Sample[] {
+    const context = this.audioContext.getContext()
+    if (!this.audioBuffer || !context) return []
 
-    // Find peaks
-    for (let i = 1; i < audioData.length - 1; i++) {
-      if (
-        Math.abs(audioData[i]) > threshold * maxAmplitude &&
-        Math.abs(audioData[i]) > Math.abs(audioData[i - 1]) &&
-        Math.abs(audioData[i]) > Math.abs(audioData[i + 1])
-      ) {
-        peaks.push(i)
+    const buffer = this.audioBuffer
+    const ranges = sliceRanges(this.cues.map((cue) => cue.position), buffer.length)
+    const baseName = this.sample.name.replace(/\.[^.]+$/, "")
+
+    return ranges.map(({ start, end }, index) => {
+      const slice = context.createBuffer(buffer.numberOfChannels, end - start, buffer.sampleRate)
+      for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        slice.getChannelData(channel).set(buffer.getChannelData(channel).subarray(start, end))
       }
+
+      const name = `${baseName}_${(index + 1).toString().padStart(2, "0")}.wav`
+      return this.sampleManager.createSample(name, slice, { tempo: this.sample.tempo })
+    })
+  }
+
+  /**
+   * Bakes a crossfade into the audio before the loop end, as an edit so it can be undone
+   */
+  public async crossfadeLoop(crossfadeMs = 50): Promise<void> {
+    if (!this.loop) {
+      throw new Error("Set a loop before applying a crossfade")
     }
 
-    if (peaks.length < 2) return null
+    const start = this.loop.start + this.offset
+    const end = this.loop.end + this.offset
+    this.addEdit({ type: "crossfadeLoop", params: { start, end, crossfade: crossfadeMs } })
+  }
 
-    const start = peaks[0] + frameMargin
-    const end = peaks[peaks.length - 1] - frameMargin
+  /**
+   * Plays the rendered audio through the loop until the returned function is called
+   */
+  public previewLoop(): () => void {
+    const context = this.audioContext.getContext()
+    const output = this.audioContext.getMasterGain()
+    if (!context || !output || !this.audioBuffer) return () => {}
+
+    const source = context.createBufferSource()
+    source.buffer = this.audioBuffer
+    if (this.loop) {
+      source.loop = true
+      source.loopStart = this.loop.start / this.audioBuffer.sampleRate
+      source.loopEnd = (this.loop.end + 1) / this.audioBuffer.sampleRate
+    }
 
-    if (start >= end) return null
+    source.connect(output)
+    source.start(0)
 
-    return { start, end }
+    return () => {
+      try {
+        source.stop()
+      } catch (e) {
+        // Ignore errors if already stopped
+      }
+    }
   }
 
   public async save(): Promise<Sample> {
@@ -215,6 +319,10 @@ export class SampleEditor {
       waveform,
       duration: this.audioBuffer.duration,
       isLoaded: true,
+      loop: this.loop,
+      cues: this.cues,
+      originalBuffer: this.originalBuffer,
+      edits: this.edits,
     }
 
     this.sampleManager.updateSample(updatedSample)
@@ -222,6 +330,18 @@ export class SampleEditor {
     return updatedSample
   }
 
+  /**
+   * Encodes the edited audio as a WAV file
+   */
+  public exportWAV(options: WAVEncodeOptions = {}): Blob {
+    if (!this.audioBuffer) {
+      throw new Error("No audio buffer to export")
+    }
+
+    const metadata = { ...this.sample, loop: this.loop, cues: this.cues }
+    return new Blob([encodeWAV(this.audioBuffer, { metadata, ...options })], { type: "audio/wav" })
+  }
+
   private generateWaveformData(buffer: AudioBuffer, points = 100): number[] {
     const channelData = buffer.getChannelData(0) // Use first channel
     const blockSize = Math.floor(channelData.length / points)
@@ -0,0 +1,151 @@
+import { crossfadeLoop } from "./loop-engine"
+
+// Non-destructive sample edits: each edit is an operation with its parameters,
+// rendered in order from the original audio
+
+export type SampleEditOperation =
+  | { type: "normalize"; params: { peak: number } }
+  | { type: "trimSilence"; params: { threshold: number; margin: number } }
+  | { type: "fade"; params: { fadeIn: number; fadeOut: number } } // milliseconds
+  // Loop frames in the original audio, so earlier trims can change without moving the crossfade; milliseconds
+  | { type: "crossfadeLoop"; params: { start: number; end: number; crossfade: number } }
+
+export type SampleEdit = SampleEditOperation & {
+  id: string
+  enabled: boolean
+}
+
+// Rendered channel data, with the number of frames removed from the start of the original
+export interface RenderedAudio {
+  channels: Float32Array[]
+  offset: number
+}
+
+export const SAMPLE_EDIT_LABELS: Record<SampleEditOperation["type"], string> = {
+  normalize: "Normalize",
+  trimSilence: "Trim Silence",
+  fade: "Fade",
+  crossfadeLoop: "Crossfade Loop",
+}
+
+export function createSampleEdit(operation: SampleEditOperation): SampleEdit {
+  return {
+    ...operation,
+    id: `edit_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+    enabled: true,
+  } as SampleEdit
+}
+
+/**
+ * Describes an edit and its parameters, e.g. "Fade 10/20 ms"
+ */
+export function describeSampleEdit(edit: SampleEditOperation): string {
+  switch (edit.type) {
+    case "normalize":
+      return `${SAMPLE_EDIT_LABELS.normalize} to ${Math.round(edit.params.peak * 100)}%`
+    case "trimSilence":
+      return `${SAMPLE_EDIT_LABELS.trimSilence} below ${edit.params.threshold.toFixed(3)}`
+    case "fade":
+      return `${SAMPLE_EDIT_LABELS.fade} ${edit.params.fadeIn}/${edit.params.fadeOut} ms`
+    case "crossfadeLoop":
+      return `${SAMPLE_EDIT_LABELS.crossfadeLoop} ${edit.params.crossfade} ms`
+  }
+}
+
+/**
+ * Applies the enabled edits in order to copies of the original channel data
+ */
+export function renderSampleEdits(original: Float32Array[], sampleRate: number, edits: SampleEdit[]): RenderedAudio {
+  let audio: RenderedAudio = { channels: original.map((data) => data.slice()), offset: 0 }
+
+  for (const edit of edits) {
+    if (!edit.enabled) continue
+
+    switch (edit.type) {
+      case "normalize":
+        audio = { ...audio, channels: normalize(audio.channels, edit.params.peak) }
+        break
+      case "trimSilence": {
+        const trimmed = trimSilence(audio.channels, edit.params.threshold, edit.params.margin)
+        audio = { channels: trimmed.channels, offset: audio.offset + trimmed.offset }
+        break
+      }
+      case "fade":
+        audio = { ...audio, channels: fade(audio.channels, sampleRate, edit.params.fadeIn, edit.params.fadeOut) }
+        break
+      case "crossfadeLoop": {
+        const start = edit.params.start - audio.offset
+        const end = edit.params.end - audio.offset
+        // Skipped when earlier edits trimmed away part of the loop
+        if (start < 0 || end >= audio.channels[0].length) break
+
+        const frames = (edit.params.crossfade * sampleRate) / 1000
+        audio = { ...audio, channels: crossfadeLoop(audio.channels, { start, end, type: "forward" }, frames) }
+        break
+      }
+    }
+  }
+
+  return audio
+}
+
+/**
+ * Scales each channel so its loudest sample reaches the peak level
+ */
+function normalize(channels: Float32Array[], peak: number): Float32Array[] {
+  return channels.map((data) => {
+    let maxAmplitude = 0
+    for (let i = 0; i < data.length; i++) {
+      maxAmplitude = Math.max(maxAmplitude, Math.abs(data[i]))
+    }
+
+    const gain = maxAmplitude > 0 ? peak / maxAmplitude : 1.0
+    return data.map((value) => value * gain)
+  })
+}
+
+/**
+ * Removes silence from both ends, judged on the first channel, keeping a margin of frames around the sound
+ */
+function trimSilence(channels: Float32Array[], threshold: number, margin: number): RenderedAudio {
+  const audioData = channels[0]
+  let startSample = 0
+  let endSample = audioData.length - 1
+
+  for (let i = 0; i < audioData.length; i++) {
+    if (Math.abs(audioData[i]) > threshold) {
+      startSample = Math.max(0, i - margin)
+      break
+    }
+  }
+
+  for (let i = audioData.length - 1; i >= 0; i--) {
+    if (Math.abs(audioData[i]) > threshold) {
+      endSample = Math.min(audioData.length - 1, i + margin)
+      break
+    }
+  }
+
+  return { channels: channels.map((data) => data.slice(startSample, endSample + 1)), offset: startSample }
+}
+
+/**
+ * Applies linear fades to the start and end
+ */
+function fade(channels: Float32Array[], sampleRate: number, fadeInMs: number, fadeOutMs: number): Float32Array[] {
+  return channels.map((data) => {
+    const output = data.slice()
+    const fadeInSamples = Math.min(output.length, Math.floor((fadeInMs * sampleRate) / 1000))
+    const fadeOutSamples = Math.min(output.length, Math.floor((fadeOutMs * sampleRate) / 1000))
+
+    for (let i = 0; i < fadeInSamples; i++) {
+      output[i] *= i / fadeInSamples
+    }
+
+    for (let i = 0; i < fadeOutSamples; i++) {
+      output[output.length - fadeOutSamples + i] *= 1 - i / fadeOutSamples
+    }
+
+    return output
+  })
+}
@@ -1,10 +1,14 @@
-import { detectPitch } from "./pitch-detection"
+import { detectPitch, midiToNoteName } from "./pitch-detection"
+import { tokenizeFilename, velocityFromTokens } from "./filename-tokenizer"
 import SampleManager, { type Sample } from "../sample-manager"
 
 export interface MappedSample {
   id: string
   midiNote: number
+  fineTune: number // cents the sample is off the MIDI note
   velocity: number
+  velocityLayer: number | null // layer tag from the filename
+  roundRobin: number | null // round-robin index from the filename
   rootPitch: string
 }
 
@@ -16,13 +20,11 @@ export async function autoMapSamples(sampleIds: string[]): Promise<MappedSample[
     const sample = sampleManager.getSample(sampleId)
     if (!sample || !sample.buffer) continue
 
-    // Try to extract note from filename first
-    const noteFromFilename = extractNoteFromFilename(sample.name)
-    let midiNote: number | null = null
-
-    if (noteFromFilename) {
-      midiNote = noteToMidi(noteFromFilename)
-    }
+    // Prefer the root note embedded in the file, then the note in its filename
+    const tokens = tokenizeFilename(sample.name)
+    const noteFromFilename = tokens.note
+    let midiNote: number | null = sample.rootNote ?? noteFromFilename
+    let fineTune = sample.rootNote !== undefined ? sample.fineTune || 0 : 0
 
     // If we couldn't get note from filename, try pitch detection
     if (midiNote === null) {
@@ -30,6 +32,7 @@ export async function autoMapSamples(sampleIds: string[]): Promise<MappedSample[
         const pitchInfo = await detectPitch(sample.buffer)
         if (pitchInfo) {
           midiNote = pitchInfo.midiNote
+          fineTune = pitchInfo.cents
         }
       } catch (error) {
         console.error("Failed to detect pitch:", error)
@@ -40,8 +43,11 @@ export async function autoMapSamples(sampleIds: string[]): Promise<MappedSample[
       mappedSamples.push({
         id: sampleId,
         midiNote,
-        velocity: 127, // default, to be refined
-        rootPitch: noteFromFilename || "Unknown",
+        fineTune,
+        velocity: velocityFromTokens(tokens) ?? 127,
+        velocityLayer: tokens.velocityLayer,
+        roundRobin: tokens.roundRobin,
+        rootPitch: noteFromFilename !== null ? midiToNoteName(noteFromFilename) : "Unknown",
       })
     }
   }
@@ -53,17 +59,8 @@ export function groupByVelocity(samples: Sample[]): { [velocity: number]: Sample
   const velocityGroups: { [velocity: number]: Sample[] } = {}
 
   for (const sample of samples) {
-    let velocity = 100 // default
-
     // Check filename for velocity hints
-    const name = sample.name.toLowerCase()
-    if (name.includes("soft")) {
-      velocity = 40
-    } else if (name.includes("med")) {
-      velocity = 80
-    } else if (name.includes("hard")) {
-      velocity = 120
-    }
+    const velocity = velocityFromTokens(tokenizeFilename(sample.name)) ?? 100
 
     if (!velocityGroups[velocity]) {
       velocityGroups[velocity] = []
@@ -74,42 +71,3 @@ export function groupByVelocity(samples: Sample[]): { [velocity: number]: Sample
 
   return velocityGroups
 }
-
-function extractNoteFromFilename(filename: string): string | null {
-  const match = /([A-Ga-g][#b]?[0-9])/.exec(filename)
-  return match ? match[1].toUpperCase() : null
-}
-
-function noteToMidi(noteName: string): number {
-  const noteMap: { [key: string]: number } = {
-    C: 0,
-    "C#": 1,
-    Db: 1,
-    D: 2,
-    "D#": 3,
-    Eb: 3,
-    E: 4,
-    F: 5,
-    "F#": 6,
-    Gb: 6,
-    G: 7,
-    "G#": 8,
-    Ab: 8,
-    A: 9,
-    "A#": 10,
-    Bb: 10,
-    B: 11,
-  }
-
-  // Extract note and octave
-  const noteRegex = /([A-G][#b]?)([0-9])/i
-  const match = noteRegex.exec(noteName)
-
-  if (!match) return -1
-
-  const note = match[1].toUpperCase()
-  const octave = Number.parseInt(match[2], 10)
-
-  // Calculate MIDI note number
-  return (octave + 1) * 12 + (noteMap[note] || 0)
-}
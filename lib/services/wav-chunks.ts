@@ -0,0 +1,223 @@
+import type { Sample, SampleCue, SampleLoop } from "../sample-manager"
+
+// The sampler fields of a sample that travel inside its WAV file
+export type SampleMetadata = Pick<Sample, "rootNote" | "fineTune" | "loop" | "cues">
+
+export interface WAVChunk {
+  id: string
+  data: Uint8Array
+}
+
+// smpl loop type codes, indexed by SampleLoop["type"]
+const LOOP_TYPES: SampleLoop["type"][] = ["forward", "pingpong", "reverse"]
+
+const SAMPLER_HEADER_SIZE = 36
+const SAMPLER_LOOP_SIZE = 24
+const CUE_POINT_SIZE = 24
+
+// The pitch fraction is an unsigned 32-bit fraction of a semitone above the unity note
+const PITCH_FRACTION_SCALE = 0x100000000
+
+/**
+ * Lists the chunks of a RIFF/WAVE file, or none when the data is not a WAV file
+ */
+export function readWAVChunks(data: ArrayBuffer): WAVChunk[] {
+  const bytes = new Uint8Array(data)
+  const view = new DataView(data)
+  if (bytes.length < 12 || readString(bytes, 0, 4) !== "RIFF" || readString(bytes, 8, 4) !== "WAVE") {
+    return []
+  }
+
+  const chunks: WAVChunk[] = []
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const id = readString(bytes, offset, 4)
+    const size = view.getUint32(offset + 4, true)
+
+    // Truncated files keep whatever part of the last chunk is present
+    chunks.push({ id, data: bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + size)) })
+    offset += 8 + size + (size % 2)
+  }
+
+  return chunks
+}
+
+/**
+ * Reads the root note, fine tune, loop and cue markers from a WAV file's smpl, cue and adtl chunks
+ */
+export function readSampleMetadata(data: ArrayBuffer): SampleMetadata {
+  const chunks = readWAVChunks(data)
+  const metadata: SampleMetadata = {}
+  const loopCueIds = new Set<number>()
+
+  const sampler = chunks.find((chunk) => chunk.id === "smpl")
+  if (sampler && sampler.data.length >= SAMPLER_HEADER_SIZE) {
+    const view = chunkView(sampler)
+    const unityNote = view.getUint32(12, true)
+    const cents = Math.round((view.getUint32(16, true) / PITCH_FRACTION_SCALE) * 100)
+
+    // Keep the tuning within half a semitone of the root note
+    metadata.rootNote = Math.min(127, cents > 50 ? unityNote + 1 : unityNote)
+    metadata.fineTune = cents > 50 ? cents - 100 : cents
+
+    const loopCount = view.getUint32(28, true)
+    if (loopCount > 0 && sampler.data.length >= SAMPLER_HEADER_SIZE + SAMPLER_LOOP_SIZE) {
+      const loop = SAMPLER_HEADER_SIZE
+      loopCueIds.add(view.getUint32(loop, true))
+      metadata.loop = {
+        start: view.getUint32(loop + 8, true),
+        end: view.getUint32(loop + 12, true),
+        type: LOOP_TYPES[view.getUint32(loop + 4, true)] || "forward",
+      }
+    }
+  }
+
+  const cue = chunks.find((chunk) => chunk.id === "cue ")
+  if (cue && cue.data.length >= 4) {
+    const view = chunkView(cue)
+    const labels = readCueLabels(chunks)
+    const count = Math.min(view.getUint32(0, true), Math.floor((cue.data.length - 4) / CUE_POINT_SIZE))
+    const cues: SampleCue[] = []
+
+    for (let i = 0; i < count; i++) {
+      const offset = 4 + i * CUE_POINT_SIZE
+      const id = view.getUint32(offset, true)
+
+      // Markers written for the loop are already described by it
+      if (loopCueIds.has(id)) continue
+
+      const point: SampleCue = { position: view.getUint32(offset + 20, true) }
+      if (labels.has(id)) point.label = labels.get(id)
+      cues.push(point)
+    }
+
+    if (cues.length > 0) metadata.cues = cues
+  }
+
+  return metadata
+}
+
+/**
+ * Creates the smpl, cue and adtl chunks describing a sample's root note, loop and markers
+ */
+export function createSampleChunks(metadata: SampleMetadata, sampleRate: number): WAVChunk[] {
+  const cues: { id: number; cue: SampleCue }[] = (metadata.cues || []).map((cue, index) => ({ id: index + 1, cue }))
+  const chunks: WAVChunk[] = []
+  const hasTuning = metadata.rootNote !== undefined || !!metadata.fineTune
+
+  if (!hasTuning && !metadata.loop && cues.length === 0) return chunks
+
+  if (hasTuning || metadata.loop) {
+    const loopCueId = cues.length + 1
+    const view = new DataView(new ArrayBuffer(SAMPLER_HEADER_SIZE + (metadata.loop ? SAMPLER_LOOP_SIZE : 0)))
+    // The pitch in cents, kept within the MIDI range as a whole so a flat note 0 is not written a semitone sharp
+    const cents = Math.round(metadata.fineTune || 0)
+    const pitch = Math.max(0, Math.min(127 * 100 + 99, (metadata.rootNote ?? 60) * 100 + cents))
+    const unityNote = Math.floor(pitch / 100)
+    const fraction = (pitch % 100) / 100
+
+    view.setUint32(8, Math.round(1e9 / sampleRate), true)
+    view.setUint32(12, unityNote, true)
+    view.setUint32(16, Math.min(PITCH_FRACTION_SCALE - 1, Math.round(fraction * PITCH_FRACTION_SCALE)), true)
+
+    if (metadata.loop) {
+      view.setUint32(28, 1, true)
+      view.setUint32(SAMPLER_HEADER_SIZE, loopCueId, true)
+      view.setUint32(SAMPLER_HEADER_SIZE + 4, Math.max(0, LOOP_TYPES.indexOf(metadata.loop.type)), true)
+      view.setUint32(SAMPLER_HEADER_SIZE + 8, metadata.loop.start, true)
+      view.setUint32(SAMPLER_HEADER_SIZE + 12, metadata.loop.end, true)
+
+      // Samplers that only read cue markers still see where the loop starts
+      cues.push({ id: loopCueId, cue: { position: metadata.loop.start, label: "Loop" } })
+    }
+
+    chunks.push({ id: "smpl", data: new Uint8Array(view.buffer) })
+  }
+
+  if (cues.length > 0) {
+    chunks.push(createCueChunk(cues))
+
+    const labels = cues.filter(({ cue }) => cue.label)
+    if (labels.length > 0) chunks.push(createLabelChunk(labels))
+  }
+
+  return chunks
+}
+
+function createCueChunk(cues: { id: number; cue: SampleCue }[]): WAVChunk {
+  const view = new DataView(new ArrayBuffer(4 + cues.length * CUE_POINT_SIZE))
+  view.setUint32(0, cues.length, true)
+
+  cues.forEach(({ id, cue }, index) => {
+    const offset = 4 + index * CUE_POINT_SIZE
+    view.setUint32(offset, id, true)
+    view.setUint32(offset + 4, cue.position, true)
+    writeString(view, offset + 8, "data")
+    view.setUint32(offset + 20, cue.position, true)
+  })
+
+  return { id: "cue ", data: new Uint8Array(view.buffer) }
+}
+
+/**
+ * Creates a LIST/adtl chunk with a labl sub-chunk per labelled cue
+ */
+function createLabelChunk(cues: { id: number; cue: SampleCue }[]): WAVChunk {
+  const encoder = new TextEncoder()
+  const labels = cues.map(({ id, cue }) => ({ id, text: encoder.encode(`${cue.label}\0`) }))
+  const size = labels.reduce((total, label) => total + 12 + label.text.length + (label.text.length % 2), 4)
+  const data = new Uint8Array(size)
+  const view = new DataView(data.buffer)
+
+  writeString(view, 0, "adtl")
+  let offset = 4
+  for (const label of labels) {
+    writeString(view, offset, "labl")
+    view.setUint32(offset + 4, 4 + label.text.length, true)
+    view.setUint32(offset + 8, label.id, true)
+    data.set(label.text, offset + 12)
+    offset += 12 + label.text.length + (label.text.length % 2)
+  }
+
+  return { id: "LIST", data }
+}
+
+function readCueLabels(chunks: WAVChunk[]): Map<number, string> {
+  const labels = new Map<number, string>()
+  const decoder = new TextDecoder()
+
+  for (const chunk of chunks) {
+    if (chunk.id !== "LIST" || readString(chunk.data, 0, 4) !== "adtl") continue
+
+    const view = chunkView(chunk)
+    let offset = 4
+    while (offset + 12 <= chunk.data.length) {
+      const id = readString(chunk.data, offset, 4)
+      const size = view.getUint32(offset + 4, true)
+
+      if (id === "labl" && size >= 4) {
+        const text = chunk.data.subarray(offset + 12, Math.min(chunk.data.length, offset + 8 + size))
+        labels.set(view.getUint32(offset + 8, true), decoder.decode(text).replace(/\0[\s\S]*$/, ""))
+      }
+
+      offset += 8 + size + (size % 2)
+    }
+  }
+
+  return labels
+}
+
+function chunkView(chunk: WAVChunk): DataView {
+  return new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength)
+}
+
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length))
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
@@ -0,0 +1,213 @@
+import { createSampleChunks, type SampleMetadata, type WAVChunk } from "./wav-chunks"
+
+// 32-bit output is IEEE float, 16 and 24-bit output is integer PCM
+export type WAVBitDepth = 16 | 24 | 32
+
+export const WAV_BIT_DEPTHS: WAVBitDepth[] = [16, 24, 32]
+export const WAV_SAMPLE_RATES = [44100, 48000, 96000]
+
+export interface WAVEncodeOptions {
+  bitDepth?: WAVBitDepth // defaults to 16
+  sampleRate?: number // resamples when different from the source, defaults to the source rate
+  channels?: 1 | 2 // down-mixes or duplicates channels, defaults to the source layout (at most stereo)
+  metadata?: SampleMetadata // root note, loop and cue markers, positioned at the source rate
+}
+
+// The subset of AudioBuffer the encoder reads, so it also runs outside the browser
+export interface PCMSource {
+  numberOfChannels: number
+  length: number
+  sampleRate: number
+  getChannelData(channel: number): Float32Array
+}
+
+const FORMAT_PCM = 1
+const FORMAT_IEEE_FLOAT = 3
+
+// Half-width of the windowed-sinc resampling kernel, in source samples
+const RESAMPLE_TAPS = 16
+
+/**
+ * Encodes audio as a WAV file, converting bit depth, sample rate and channel count as requested
+ */
+export function encodeWAV(buffer: PCMSource, options: WAVEncodeOptions = {}): ArrayBuffer {
+  const bitDepth = options.bitDepth || 16
+  const sampleRate = options.sampleRate || buffer.sampleRate
+
+  let channels = mixChannels(
+    Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel)),
+    options.channels || (Math.min(2, buffer.numberOfChannels) as 1 | 2),
+  )
+
+  if (sampleRate !== buffer.sampleRate) {
+    channels = channels.map((data) => resample(data, buffer.sampleRate, sampleRate))
+  }
+
+  const frames = channels[0].length
+  const isFloat = bitDepth === 32
+  const chunks: WAVChunk[] = [formatChunk(channels.length, sampleRate, bitDepth)]
+
+  // Non-PCM formats need a fact chunk with the frame count
+  if (isFloat) {
+    const fact = new DataView(new ArrayBuffer(4))
+    fact.setUint32(0, frames, true)
+    chunks.push({ id: "fact", data: new Uint8Array(fact.buffer) })
+  }
+
+  if (options.metadata) {
+    chunks.push(...createSampleChunks(scaleMetadata(options.metadata, sampleRate / buffer.sampleRate), sampleRate))
+  }
+
+  chunks.push({ id: "data", data: encodeSamples(channels, bitDepth) })
+
+  return writeRIFF(chunks)
+}
+
+/**
+ * Converts channel data to the requested count: averages to mono, or pairs odd and even channels for stereo
+ */
+export function mixChannels(channels: Float32Array[], count: 1 | 2): Float32Array[] {
+  if (channels.length === count) return channels
+
+  if (count === 1 || channels.length === 1) {
+    const mono = new Float32Array(channels[0].length)
+    for (const data of channels) {
+      for (let i = 0; i < mono.length; i++) {
+        mono[i] += data[i] / channels.length
+      }
+    }
+
+    return count === 1 ? [mono] : [mono, mono.slice()]
+  }
+
+  // More than two channels down to stereo
+  const left = mixChannels(channels.filter((_, index) => index % 2 === 0), 1)[0]
+  const right = mixChannels(channels.filter((_, index) => index % 2 === 1), 1)[0]
+  return [left, right]
+}
+
+/**
+ * Resamples with a Blackman-windowed sinc kernel, low-passing first when the rate goes down
+ */
+export function resample(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return data
+
+  const ratio = fromRate / toRate
+  const cutoff = Math.min(1, toRate / fromRate)
+  const output = new Float32Array(Math.round(data.length / ratio))
+
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio
+    const center = Math.floor(position)
+    let sum = 0
+    let weight = 0
+
+    for (let tap = -RESAMPLE_TAPS + 1; tap <= RESAMPLE_TAPS; tap++) {
+      const index = center + tap
+      if (index < 0 || index >= data.length) continue
+
+      const x = position - index
+      const phase = (Math.PI * x) / RESAMPLE_TAPS
+      const window = 0.42 + 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase)
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x * cutoff) / (Math.PI * x * cutoff)
+      const k = sinc * window
+
+      sum += data[index] * k
+      weight += k
+    }
+
+    output[i] = weight > 0 ? sum / weight : 0
+  }
+
+  return output
+}
+
+/**
+ * Moves loop and cue positions to a new sample rate
+ */
+export function scaleMetadata(metadata: SampleMetadata, ratio: number): SampleMetadata {
+  if (ratio === 1) return metadata
+
+  return {
+    ...metadata,
+    loop: metadata.loop && {
+      ...metadata.loop,
+      start: Math.round(metadata.loop.start * ratio),
+      end: Math.round(metadata.loop.end * ratio),
+    },
+    cues: metadata.cues?.map((cue) => ({ ...cue, position: Math.round(cue.position * ratio) })),
+  }
+}
+
+function formatChunk(channels: number, sampleRate: number, bitDepth: WAVBitDepth): WAVChunk {
+  const isFloat = bitDepth === 32
+  const blockAlign = channels * (bitDepth / 8)
+
+  // Float files carry the extension size field, as WAVE_FORMAT_IEEE_FLOAT requires
+  const view = new DataView(new ArrayBuffer(isFloat ? 18 : 16))
+  view.setUint16(0, isFloat ? FORMAT_IEEE_FLOAT : FORMAT_PCM, true)
+  view.setUint16(2, channels, true)
+  view.setUint32(4, sampleRate, true)
+  view.setUint32(8, sampleRate * blockAlign, true)
+  view.setUint16(12, blockAlign, true)
+  view.setUint16(14, bitDepth, true)
+
+  return { id: "fmt ", data: new Uint8Array(view.buffer) }
+}
+
+function encodeSamples(channels: Float32Array[], bitDepth: WAVBitDepth): Uint8Array {
+  const bytesPerSample = bitDepth / 8
+  const frames = channels[0].length
+  const view = new DataView(new ArrayBuffer(frames * channels.length * bytesPerSample))
+  let offset = 0
+
+  for (let i = 0; i < frames; i++) {
+    for (const data of channels) {
+      const value = Math.max(-1, Math.min(1, data[i]))
+
+      if (bitDepth === 32) {
+        view.setFloat32(offset, value, true)
+      } else if (bitDepth === 24) {
+        const int = Math.round(value < 0 ? value * 0x800000 : value * 0x7fffff)
+        view.setUint8(offset, int & 0xff)
+        view.setUint8(offset + 1, (int >> 8) & 0xff)
+        view.setUint8(offset + 2, (int >> 16) & 0xff)
+      } else {
+        view.setInt16(offset, Math.round(value < 0 ? value * 0x8000 : value * 0x7fff), true)
+      }
+
+      offset += bytesPerSample
+    }
+  }
+
+  return new Uint8Array(view.buffer)
+}
+
+/**
+ * Wraps chunks in a RIFF/WAVE container, padding odd-sized chunks as the format requires
+ */
+function writeRIFF(chunks: WAVChunk[]): ArrayBuffer {
+  const size = chunks.reduce((total, chunk) => total + 8 + chunk.data.length + (chunk.data.length % 2), 4)
+  const output = new Uint8Array(8 + size)
+  const view = new DataView(output.buffer)
+
+  writeString(view, 0, "RIFF")
+  view.setUint32(4, size, true)
+  writeString(view, 8, "WAVE")
+
+  let offset = 12
+  for (const chunk of chunks) {
+    writeString(view, offset, chunk.id)
+    view.setUint32(offset + 4, chunk.data.length, true)
+    output.set(chunk.data, offset + 8)
+    offset += 8 + chunk.data.length + (chunk.data.length % 2)
+  }
+
+  return output.buffer
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
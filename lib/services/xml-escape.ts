@@ -0,0 +1,21 @@
+// Control characters and non-characters that XML 1.0 does not allow anywhere in a document
+const INVALID_XML_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g
+
+/**
+ * Removes characters that cannot appear in an XML document, even escaped
+ */
+export function sanitizeXMLText(value: string): string {
+  return value.replace(INVALID_XML_CHARACTERS, "")
+}
+
+/**
+ * Escapes a value for use in XML text or attribute content
+ */
+export function escapeXML(value: string): string {
+  return sanitizeXMLText(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
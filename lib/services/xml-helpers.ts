@@ -0,0 +1,47 @@
+import type { XMLElement } from "./xml-parser"
+
+// Small accessors shared by the XPM parsers
+
+export function childElements(parent: XMLElement | null, name: string): XMLElement[] {
+  if (!parent) return []
+  return parent.children.filter((child) => child.name === name)
+}
+
+export function childElement(parent: XMLElement | null, name: string): XMLElement | null {
+  return childElements(parent, name)[0] || null
+}
+
+export function attribute(element: XMLElement, name: string): string | null {
+  return Object.prototype.hasOwnProperty.call(element.attributes, name) ? element.attributes[name] : null
+}
+
+export function intAttribute(element: XMLElement, name: string, fallback: number): number {
+  const value = Number.parseInt(attribute(element, name) || "", 10)
+  return Number.isNaN(value) ? fallback : value
+}
+
+export function floatAttribute(element: XMLElement, name: string, fallback: number): number {
+  const value = Number.parseFloat(attribute(element, name) || "")
+  return Number.isNaN(value) ? fallback : value
+}
+
+export function childText(parent: XMLElement, name: string): string | null {
+  const child = childElement(parent, name)
+  return child ? child.text.trim() : null
+}
+
+export function childInt(parent: XMLElement, name: string, fallback: number): number {
+  const value = Number.parseInt(childText(parent, name) || "", 10)
+  return Number.isNaN(value) ? fallback : value
+}
+
+export function childFloat(parent: XMLElement, name: string, fallback: number): number {
+  const value = Number.parseFloat(childText(parent, name) || "")
+  return Number.isNaN(value) ? fallback : value
+}
+
+export function childBool(parent: XMLElement, name: string, fallback: boolean): boolean {
+  const value = childText(parent, name)
+  if (value === null) return fallback
+  return value.toLowerCase() === "true"
+}
@@ -0,0 +1,413 @@
+// Minimal XML parser that runs in the browser, in Next.js API routes and under plain Node
+
+export interface XMLElement {
+  name: string
+  attributes: { [name: string]: string } // has no prototype, so names like "constructor" are plain attributes
+  children: XMLElement[]
+  text: string // concatenated text of direct children, entities decoded
+  line: number
+  column: number
+}
+
+export class XMLParseError extends Error {
+  public readonly line: number
+  public readonly column: number
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`)
+    this.name = "XMLParseError"
+    this.line = line
+    this.column = column
+  }
+}
+
+// A problem the tolerant parser recovered from
+export interface XMLParseIssue {
+  message: string
+  line: number
+  column: number
+}
+
+// Elements are read recursively, so deeper documents are refused rather than overflowing the stack
+const MAX_DEPTH = 1000
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+}
+
+/**
+ * Parses an XML document and returns its root element
+ */
+export function parseXML(content: string): XMLElement {
+  return new XMLReader(content, false).readDocument()
+}
+
+/**
+ * Parses an XML document, recovering from bad nesting, unclosed tags, comments and CDATA sections, unquoted or
+ * unterminated attribute values, invalid character references and stray characters. Only a document that does
+ * not start with a root element, or that nests elements more than MAX_DEPTH deep, is fatal.
+ */
+export function parseXMLTolerant(content: string): { root: XMLElement; issues: XMLParseIssue[] } {
+  const reader = new XMLReader(content, true)
+  const root = reader.readDocument()
+  return { root, issues: reader.issues }
+}
+
+class XMLReader {
+  public issues: XMLParseIssue[] = []
+  private content: string
+  private tolerant: boolean
+  private position = 0
+  private lineStarts: number[] = [0]
+  private openNames: string[] = []
+
+  constructor(content: string, tolerant: boolean) {
+    this.tolerant = tolerant
+
+    // Ignore a leading byte order mark
+    this.content = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content
+
+    for (let i = 0; i < this.content.length; i++) {
+      if (this.content[i] === "\n") this.lineStarts.push(i + 1)
+    }
+  }
+
+  public readDocument(): XMLElement {
+    this.skipMisc()
+
+    if (this.position >= this.content.length || this.content[this.position] !== "<") {
+      this.fail("Expected a root element")
+    }
+
+    const root = this.readElement()
+
+    for (;;) {
+      this.skipMisc()
+      if (this.position >= this.content.length) break
+
+      if (this.tolerant && this.startsWith("</")) {
+        this.recover("Unexpected closing tag after the root element")
+        this.skipTo(">")
+        continue
+      }
+
+      this.recover("Unexpected content after the root element")
+      this.position = this.content.length
+    }
+
+    return root
+  }
+
+  /**
+   * Skips whitespace, the XML declaration, processing instructions, comments and DOCTYPE
+   */
+  private skipMisc(): void {
+    for (;;) {
+      this.skipWhitespace()
+
+      if (this.startsWith("<?")) {
+        this.skipPast("?>", "Unterminated processing instruction")
+      } else if (this.startsWith("<!--")) {
+        this.skipPast("-->", "Unterminated comment")
+      } else if (this.startsWith("<!DOCTYPE")) {
+        this.skipPast(">", "Unterminated DOCTYPE")
+      } else {
+        return
+      }
+    }
+  }
+
+  private readElement(): XMLElement {
+    const start = this.position
+    const { line, column } = this.location(start)
+    if (this.openNames.length >= MAX_DEPTH) {
+      this.fail(`Elements are nested more than ${MAX_DEPTH} deep`)
+    }
+    this.position++ // <
+
+    const name = this.readName()
+    const element: XMLElement = { name, attributes: Object.create(null), children: [], text: "", line, column }
+
+    // Attributes
+    for (;;) {
+      this.skipWhitespace()
+
+      if (this.startsWith("/>")) {
+        this.position += 2
+        return element
+      }
+
+      if (this.startsWith(">")) {
+        this.position++
+        break
+      }
+
+      if (this.position >= this.content.length) {
+        // Tolerant parsing takes the element as closed at the end
+        this.recover(`Unterminated start tag <${name}>`)
+        return element
+      }
+
+      if (this.tolerant && !this.startsWithName()) {
+        this.recover(`Unexpected character in start tag <${name}>`)
+        this.position++
+        continue
+      }
+
+      const attributeAt = this.position
+      const attributeName = this.readName()
+      if (hasOwn(element.attributes, attributeName)) {
+        this.recover(`Duplicate attribute "${attributeName}" on <${name}>`, attributeAt)
+      }
+
+      this.skipWhitespace()
+      if (!this.startsWith("=")) {
+        this.recover(`Expected "=" after attribute "${attributeName}"`)
+        element.attributes[attributeName] = ""
+        continue
+      }
+      this.position++
+      this.skipWhitespace()
+      element.attributes[attributeName] = this.readAttributeValue()
+    }
+
+    // Content
+    this.openNames.push(name)
+
+    for (;;) {
+      if (this.position >= this.content.length) {
+        this.recover(`Missing closing tag </${name}>`, start)
+        this.openNames.pop()
+        return element
+      }
+
+      if (this.startsWith("</")) {
+        const closeAt = this.position
+        this.position += 2
+
+        if (this.tolerant && !this.startsWithName()) {
+          this.recover("Expected a name in closing tag", closeAt)
+          this.skipTo(">")
+          continue
+        }
+        const closingName = this.readName()
+
+        if (closingName === name) {
+          this.skipWhitespace()
+          if (this.startsWith(">")) {
+            this.position++
+          } else {
+            this.recover(`Unterminated closing tag </${name}>`)
+            this.skipTo(">")
+          }
+          this.openNames.pop()
+          return element
+        }
+
+        if (!this.tolerant) {
+          this.fail(`Expected </${name}> but found </${closingName}>`, closeAt)
+        }
+
+        if (this.openNames.includes(closingName)) {
+          // The tag closes an ancestor, so this element was never closed
+          this.recover(`Missing closing tag </${name}>`, start)
+          this.position = closeAt
+          this.openNames.pop()
+          return element
+        }
+
+        this.recover(`Unexpected closing tag </${closingName}>`, closeAt)
+        this.skipTo(">")
+        continue
+      }
+
+      if (this.startsWith("<!--")) {
+        this.skipPast("-->", "Unterminated comment")
+      } else if (this.startsWith("<![CDATA[")) {
+        const textStart = this.position + 9
+        const end = this.content.indexOf("]]>", textStart)
+        if (end === -1) {
+          // Tolerant parsing takes the rest of the document as the section's text
+          this.recover("Unterminated CDATA section")
+          element.text += this.content.slice(textStart)
+          this.position = this.content.length
+        } else {
+          element.text += this.content.slice(textStart, end)
+          this.position = end + 3
+        }
+      } else if (this.startsWith("<?")) {
+        this.skipPast("?>", "Unterminated processing instruction")
+      } else if (this.tolerant && this.startsWith("<") && !this.startsWithName(1)) {
+        this.recover("Unescaped '<'")
+        element.text += "<"
+        this.position++
+      } else if (this.startsWith("<")) {
+        element.children.push(this.readElement())
+      } else {
+        const textStart = this.position
+        const end = this.content.indexOf("<", textStart)
+        this.position = end === -1 ? this.content.length : end
+        element.text += this.decodeEntities(this.content.slice(textStart, this.position), textStart)
+      }
+    }
+  }
+
+  private readName(): string {
+    const match = /^[A-Za-z_:][\w.:-]*/.exec(this.content.slice(this.position, this.position + 256))
+    if (!match) {
+      this.fail("Expected a name")
+    }
+
+    this.position += match[0].length
+    return match[0]
+  }
+
+  private readAttributeValue(): string {
+    const quote = this.content[this.position]
+    if (quote !== '"' && quote !== "'") {
+      // Tolerant parsing takes an unquoted value up to whitespace or the end of the tag
+      this.recover("Expected a quoted attribute value")
+      const start = this.position
+      const match = /^[^\s>]*/.exec(this.content.slice(start))
+      let raw = match ? match[0] : ""
+      if (raw.endsWith("/") && this.content[start + raw.length] === ">") raw = raw.slice(0, -1)
+      this.position = start + raw.length
+      return this.decodeEntities(raw, start)
+    }
+
+    const start = this.position + 1
+    let end = this.content.indexOf(quote, start)
+    if (end === -1) {
+      // Tolerant parsing takes an unterminated value up to the end of the tag
+      this.recover("Unterminated attribute value")
+      end = this.content.indexOf(">", start)
+      if (end === -1) end = this.content.length
+      this.position = end
+    } else {
+      this.position = end + 1
+    }
+
+    const raw = this.content.slice(start, end)
+    if (raw.includes("<")) {
+      this.recover('Attribute values must not contain "<"', start + raw.indexOf("<"))
+    }
+
+    return this.decodeEntities(raw, start)
+  }
+
+  private decodeEntities(raw: string, offset: number): string {
+    return raw.replace(/&([^;&\s]*);?/g, (match, entity: string, index: number) => {
+      if (!match.endsWith(";")) {
+        this.recover("Unescaped '&'", offset + index)
+        return match
+      }
+
+      if (entity.startsWith("#")) {
+        const hex = entity.startsWith("#x") || entity.startsWith("#X")
+        const code = Number.parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10)
+        if (!Number.isNaN(code)) {
+          if (isXMLChar(code)) return String.fromCodePoint(code)
+
+          this.recover(`Invalid character reference "${match}"`, offset + index)
+          return match
+        }
+      } else if (hasOwn(NAMED_ENTITIES, entity)) {
+        return NAMED_ENTITIES[entity]
+      }
+
+      this.recover(`Unknown entity "${match}"`, offset + index)
+      return match
+    })
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.content.length && /\s/.test(this.content[this.position])) {
+      this.position++
+    }
+  }
+
+  /**
+   * Moves past the next occurrence of the terminator. Tolerant parsing runs to the end of the content without one.
+   */
+  private skipPast(terminator: string, message: string): void {
+    const end = this.content.indexOf(terminator, this.position)
+    if (end === -1) {
+      this.recover(message)
+      this.position = this.content.length
+      return
+    }
+    this.position = end + terminator.length
+  }
+
+  /**
+   * Moves past the next occurrence of the terminator, or to the end of the content
+   */
+  private skipTo(terminator: string): void {
+    const end = this.content.indexOf(terminator, this.position)
+    this.position = end === -1 ? this.content.length : end + terminator.length
+  }
+
+  private startsWithName(offset = 0): boolean {
+    return /[A-Za-z_:]/.test(this.content[this.position + offset] || "")
+  }
+
+  private startsWith(value: string): boolean {
+    return this.content.startsWith(value, this.position)
+  }
+
+  private location(offset: number): { line: number; column: number } {
+    // Binary search for the last line starting at or before the offset
+    let low = 0
+    let high = this.lineStarts.length - 1
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (this.lineStarts[mid] <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 }
+  }
+
+  /**
+   * Records a recoverable problem in tolerant mode and throws otherwise
+   */
+  private recover(message: string, offset = this.position): void {
+    if (!this.tolerant) {
+      this.fail(message, offset)
+    }
+
+    const { line, column } = this.location(offset)
+    this.issues.push({ message, line, column })
+  }
+
+  private fail(message: string, offset = this.position): never {
+    const { line, column } = this.location(offset)
+    throw new XMLParseError(message, line, column)
+  }
+}
+
+/**
+ * Whether the code point is a character XML documents may contain, the only ones a character reference may name
+ */
+function isXMLChar(code: number): boolean {
+  return (
+    code === 0x9 ||
+    code === 0xa ||
+    code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff)
+  )
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key)
+}
@@ -0,0 +1,282 @@
+import { instrumentLabel, padLabelFromIndex, type XPMInstrument, type XPMLayer, type XPMProgram } from "./xpm-program"
+
+export type XPMDiffKind = "added" | "removed" | "changed"
+
+export interface XPMDiffEntry {
+  id: string // stable within one pair of programs, used to accept or reject the change
+  kind: XPMDiffKind
+  target: string // e.g. "program", "keygroup 2" or "pad A01 layer 1"
+  field?: string
+  before?: string
+  after?: string
+  description: string
+}
+
+// A compared property, possibly spanning several model fields such as a low/high range
+interface DiffField {
+  key: string
+  label: string
+  paths: string[]
+  separator?: string
+}
+
+const PROGRAM_FIELDS: DiffField[] = [
+  { key: "name", label: "name", paths: ["name"] },
+  { key: "type", label: "type", paths: ["type"] },
+  { key: "volume", label: "volume", paths: ["volume"] },
+  { key: "pan", label: "pan", paths: ["pan"] },
+  { key: "tuning", label: "tuning", paths: ["tuning.coarse", "tuning.fine"] },
+]
+
+const INSTRUMENT_FIELDS: DiffField[] = [
+  { key: "number", label: "number", paths: ["number"] },
+  { key: "keyRange", label: "key range", paths: ["lowNote", "highNote"], separator: "-" },
+  { key: "volume", label: "volume", paths: ["volume"] },
+  { key: "pan", label: "pan", paths: ["pan"] },
+  { key: "tuning", label: "tuning", paths: ["tuning.coarse", "tuning.fine"] },
+  {
+    key: "envelope",
+    label: "envelope",
+    paths: ["envelope.attack", "envelope.decay", "envelope.sustain", "envelope.release"],
+  },
+  { key: "filter", label: "filter", paths: ["filter.type", "filter.cutoff", "filter.resonance"] },
+  { key: "muteGroup", label: "mute group", paths: ["muteGroup"] },
+  { key: "layerPlay", label: "layer play", paths: ["layerPlay"] },
+]
+
+const LAYER_FIELDS: DiffField[] = [
+  { key: "sampleName", label: "sample name", paths: ["sample.name"] },
+  { key: "samplePath", label: "sample path", paths: ["sample.path"] },
+  { key: "rootNote", label: "root note", paths: ["rootNote"] },
+  { key: "velocityRange", label: "velocity range", paths: ["velocityLow", "velocityHigh"], separator: "-" },
+  { key: "volume", label: "volume", paths: ["volume"] },
+  { key: "pan", label: "pan", paths: ["pan"] },
+  { key: "tuning", label: "tuning", paths: ["tuning.coarse", "tuning.fine"] },
+  { key: "loop", label: "loop", paths: ["loop.enabled", "loop.start", "loop.end", "loop.crossfade"] },
+]
+
+// Indices of an item in the original and changed lists; null on one side means removed or added
+interface Match {
+  before: number | null
+  after: number | null
+}
+
+/**
+ * Lists the structural differences between two parsed programs
+ */
+export function diffXPMPrograms(before: XPMProgram, after: XPMProgram): XPMDiffEntry[] {
+  const entries = diffFields("program", "program", PROGRAM_FIELDS, before, after)
+
+  for (const pad of before.pads) {
+    const changed = after.pads.find((p) => p.index === pad.index)
+    if (!changed || changed.note === pad.note) continue
+
+    const target = `pad ${padLabelFromIndex(pad.index)}`
+    entries.push({
+      id: `pad${pad.index}.note`,
+      kind: "changed",
+      target,
+      field: "note",
+      before: String(pad.note),
+      after: String(changed.note),
+      description: `${target} note changed from ${pad.note} to ${changed.note}`,
+    })
+  }
+
+  for (const match of matchInstruments(before.instruments, after.instruments)) {
+    const id = instrumentId(match)
+
+    if (match.after === null) {
+      const target = instrumentLabel(before, before.instruments[match.before!])
+      entries.push({ id, kind: "removed", target, description: `Removed ${target}` })
+    } else if (match.before === null) {
+      const target = instrumentLabel(after, after.instruments[match.after])
+      entries.push({ id, kind: "added", target, description: `Added ${target}` })
+    } else {
+      const original = before.instruments[match.before]
+      const changed = after.instruments[match.after]
+      const target = instrumentLabel(before, original)
+
+      entries.push(...diffFields(id, target, INSTRUMENT_FIELDS, original, changed))
+      entries.push(...diffLayers(id, target, original.layers, changed.layers))
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Builds a program from the original with only the accepted changes from the changed program applied
+ */
+export function applyXPMDiff(before: XPMProgram, after: XPMProgram, acceptedIds: Iterable<string>): XPMProgram {
+  const accepted = new Set(acceptedIds)
+  const result = clone(before)
+
+  applyFields("program", PROGRAM_FIELDS, result, after, accepted)
+
+  for (const pad of result.pads) {
+    const changed = after.pads.find((p) => p.index === pad.index)
+    if (changed && accepted.has(`pad${pad.index}.note`)) {
+      pad.note = changed.note
+    }
+  }
+
+  result.instruments = []
+
+  for (const match of matchInstruments(before.instruments, after.instruments)) {
+    const id = instrumentId(match)
+
+    if (match.after === null) {
+      if (!accepted.has(id)) result.instruments.push(clone(before.instruments[match.before!]))
+    } else if (match.before === null) {
+      if (accepted.has(id)) result.instruments.push(clone(after.instruments[match.after]))
+    } else {
+      const changed = after.instruments[match.after]
+      const instrument = clone(before.instruments[match.before])
+
+      applyFields(id, INSTRUMENT_FIELDS, instrument, changed, accepted)
+      instrument.layers = applyLayers(id, before.instruments[match.before].layers, changed.layers, accepted)
+      result.instruments.push(instrument)
+    }
+  }
+
+  return result
+}
+
+function diffLayers(instrumentKey: string, instrumentTarget: string, before: XPMLayer[], after: XPMLayer[]) {
+  const entries: XPMDiffEntry[] = []
+
+  for (const match of matchLayers(before, after)) {
+    const id = layerId(instrumentKey, match)
+
+    if (match.after === null) {
+      const target = `${instrumentTarget} layer ${match.before! + 1}`
+      const sample = before[match.before!].sample.name || "no sample"
+      entries.push({ id, kind: "removed", target, description: `Removed ${target} (${sample})` })
+    } else if (match.before === null) {
+      const target = `${instrumentTarget} layer ${match.after + 1}`
+      entries.push({ id, kind: "added", target, description: `Added ${target} (${after[match.after].sample.name})` })
+    } else {
+      const target = `${instrumentTarget} layer ${match.before + 1}`
+      entries.push(...diffFields(id, target, LAYER_FIELDS, before[match.before], after[match.after]))
+    }
+  }
+
+  return entries
+}
+
+function applyLayers(instrumentKey: string, before: XPMLayer[], after: XPMLayer[], accepted: Set<string>) {
+  const layers: XPMLayer[] = []
+
+  for (const match of matchLayers(before, after)) {
+    const id = layerId(instrumentKey, match)
+
+    if (match.after === null) {
+      if (!accepted.has(id)) layers.push(clone(before[match.before!]))
+    } else if (match.before === null) {
+      if (accepted.has(id)) layers.push(clone(after[match.after]))
+    } else {
+      const layer = clone(before[match.before])
+      applyFields(id, LAYER_FIELDS, layer, after[match.after], accepted)
+      layers.push(layer)
+    }
+  }
+
+  return layers
+}
+
+function diffFields(key: string, target: string, fields: DiffField[], before: object, after: object): XPMDiffEntry[] {
+  const entries: XPMDiffEntry[] = []
+
+  for (const field of fields) {
+    const beforeValue = formatField(field, before)
+    const afterValue = formatField(field, after)
+    if (beforeValue === afterValue) continue
+
+    entries.push({
+      id: `${key}.${field.key}`,
+      kind: "changed",
+      target,
+      field: field.label,
+      before: beforeValue,
+      after: afterValue,
+      description: `${target} ${field.label} changed from ${beforeValue || "empty"} to ${afterValue || "empty"}`,
+    })
+  }
+
+  return entries
+}
+
+function applyFields(key: string, fields: DiffField[], target: object, source: object, accepted: Set<string>): void {
+  for (const field of fields) {
+    if (!accepted.has(`${key}.${field.key}`)) continue
+
+    for (const path of field.paths) {
+      setValue(target, path, getValue(source, path))
+    }
+  }
+}
+
+/**
+ * Pairs instruments by number, then pairs the leftovers in order so renumbered instruments are still matched
+ */
+function matchInstruments(before: XPMInstrument[], after: XPMInstrument[]): Match[] {
+  return matchItems(before, after, (instrument) => String(instrument.number))
+}
+
+/**
+ * Pairs layers by sample name, then pairs the leftovers in order so renamed samples are still matched
+ */
+function matchLayers(before: XPMLayer[], after: XPMLayer[]): Match[] {
+  return matchItems(before, after, (layer) => layer.sample.name)
+}
+
+function matchItems<T>(before: T[], after: T[], key: (item: T) => string): Match[] {
+  const matches: Match[] = before.map((_, index) => ({ before: index, after: null }))
+  const used = new Set<number>()
+
+  for (const match of matches) {
+    const index = after.findIndex((item, i) => !used.has(i) && key(item) === key(before[match.before!]))
+    if (index !== -1) {
+      match.after = index
+      used.add(index)
+    }
+  }
+
+  const unmatched = after.map((_, index) => index).filter((index) => !used.has(index))
+
+  for (const match of matches) {
+    if (match.after === null && unmatched.length > 0) {
+      match.after = unmatched.shift()!
+    }
+  }
+
+  return [...matches, ...unmatched.map((index) => ({ before: null, after: index }))]
+}
+
+function instrumentId(match: Match): string {
+  return match.before !== null ? `i${match.before}` : `i+${match.after}`
+}
+
+function layerId(instrumentKey: string, match: Match): string {
+  return match.before !== null ? `${instrumentKey}.l${match.before}` : `${instrumentKey}.l+${match.after}`
+}
+
+function formatField(field: DiffField, target: object): string {
+  return field.paths.map((path) => String(getValue(target, path))).join(field.separator || ", ")
+}
+
+function getValue(target: object, path: string): unknown {
+  if (!path) return target
+  return path.split(".").reduce<unknown>((value, key) => (value as Record<string, unknown>)[key], target)
+}
+
+function setValue(target: object, path: string, value: unknown): void {
+  const keys = path.split(".")
+  const parent = getValue(target, keys.slice(0, -1).join(".")) as Record<string, unknown>
+  parent[keys[keys.length - 1]] = value
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value))
+}
@@ -1,11 +1,23 @@
 import type { Sample } from "../sample-manager"
+import {
+  createInstrument,
+  createLayer,
+  createProgram,
+  type XPMProgram,
+  type XPMProgramType,
+  type XPMSampleRef,
+} from "./xpm-program"
+import { serializeXPM, type XPMFormat } from "./xpm-serializer"
+import { applyFilenamePolicy, sanitizeFilename } from "./mpc-filename"
+import { calculateKeyRanges, type KeyRange, type KeyRangeStrategy } from "./key-ranges"
 
 export interface XPMOptions {
   name: string
-  type: "drumkit" | "instrument"
-  includeSettings?: boolean
+  type: XPMProgramType
+  format?: XPMFormat
   useRelativePaths?: boolean
   outputDirectory?: string
+  keyRange?: KeyRangeStrategy // how instrument keygroups are spread across the keys, defaults to midpoint
 }
 
 export class XPMGenerator {
@@ -14,120 +26,78 @@ export class XPMGenerator {
   constructor(options: XPMOptions) {
     this.options = {
       useRelativePaths: true,
+      format: "mpc",
       ...options,
     }
   }
 
+  public getProgramType(): XPMProgramType {
+    return this.options.type
+  }
+
   public generateDrumKitXPM(samples: Sample[]): string {
-    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n'
-    xml += `<DrumProgram name="${this.options.name}">\n`
-    xml += "  <Pads>\n"
+    const program = createProgram(this.options.name, "drumkit")
 
     samples.forEach((sample, index) => {
-      if (!sample) return
-
-      const samplePath = this.formatSamplePath(sample.name)
-
-      xml += `    <Pad padIndex="${index}">\n`
-      xml += `      <Sample name="${sample.name}" path="${samplePath}"/>\n`
-
-      if (this.options.includeSettings) {
-        xml += '      <Settings level="1.0" pan="0.0" tune="0"/>\n'
-      }
-
-      xml += "    </Pad>\n"
+      if (!sample || index >= program.pads.length) return
+
+      const note = program.pads[index].note
+      program.instruments.push(
+        createInstrument(index, {
+          lowNote: note,
+          highNote: note,
+          layers: [createLayer(this.createSampleRef(sample), { rootNote: note })],
+        }),
+      )
     })
 
-    xml += "  </Pads>\n"
-    xml += "</DrumProgram>"
-
-    return xml
+    return this.serialize(program)
   }
 
-  public generateInstrumentXPM(samples: Sample[], keyMapping: Map<number, Sample>): string {
-    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n'
-    xml += `<KeygroupProgram name="${this.options.name}">\n`
-    xml += "  <Keygroups>\n"
+  public generateInstrumentXPM(
+    samples: Sample[],
+    keyMapping: Map<number, Sample>,
+    keyRange = this.options.keyRange,
+  ): string {
+    const program = createProgram(this.options.name, "instrument")
 
     // Convert the key mapping to an array and sort by key
     const sortedEntries = Array.from(keyMapping.entries()).sort((a, b) => a[0] - b[0])
+    const keyRanges = this.calculateKeyRanges(sortedEntries.map(([midiNote]) => midiNote), keyRange)
 
     sortedEntries.forEach(([midiNote, sample], index) => {
       if (!sample) return
 
-      const samplePath = this.formatSamplePath(sample.name)
-
-      // Calculate key range (use neighboring notes as boundaries)
-      let lowKey = midiNote
-      let highKey = midiNote
-
-      if (index > 0) {
-        // Set low key to midpoint between this and previous note
-        const prevNote = sortedEntries[index - 1][0]
-        lowKey = Math.floor((prevNote + midiNote) / 2) + 1
-      } else {
-        // First sample extends down to 0
-        lowKey = 0
-      }
-
-      if (index < sortedEntries.length - 1) {
-        // Set high key to midpoint between this and next note
-        const nextNote = sortedEntries[index + 1][0]
-        highKey = Math.floor((midiNote + nextNote) / 2)
-      } else {
-        // Last sample extends up to 127
-        highKey = 127
-      }
-
-      xml += `    <Keygroup index="${index}">\n`
-      xml += `      <Zone>\n`
-      xml += `        <Sample name="${sample.name}" path="${samplePath}"/>\n`
-      xml += `        <KeyRange root="${midiNote}" low="${lowKey}" high="${highKey}"/>\n`
-      xml += `        <VelocityRange low="1" high="127"/>\n`
-      xml += "      </Zone>\n"
-      xml += "    </Keygroup>\n"
-    })
+      const { lowNote: lowKey, highNote: highKey } = keyRanges[index]
 
-    xml += "  </Keygroups>\n"
-    xml += "</KeygroupProgram>"
+      program.instruments.push(
+        createInstrument(index, {
+          lowNote: lowKey,
+          highNote: highKey,
+          layers: [createLayer(this.createSampleRef(sample), { rootNote: midiNote, velocityLow: 1, velocityHigh: 127 })],
+        }),
+      )
+    })
 
-    return xml
+    return this.serialize(program)
   }
 
-  public generateMultiVelocityXPM(samples: Sample[], keyVelocityMapping: Map<number, Sample[]>): string {
-    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n'
-    xml += `<KeygroupProgram name="${this.options.name}">\n`
-    xml += "  <Keygroups>\n"
+  public generateMultiVelocityXPM(
+    samples: Sample[],
+    keyVelocityMapping: Map<number, Sample[]>,
+    keyRange = this.options.keyRange,
+  ): string {
+    const program = createProgram(this.options.name, "instrument")
 
     // Convert the key mapping to an array and sort by key
     const sortedEntries = Array.from(keyVelocityMapping.entries()).sort((a, b) => a[0] - b[0])
+    const keyRanges = this.calculateKeyRanges(sortedEntries.map(([midiNote]) => midiNote), keyRange)
 
     sortedEntries.forEach(([midiNote, velocitySamples], index) => {
       if (!velocitySamples || velocitySamples.length === 0) return
 
-      // Calculate key range (use neighboring notes as boundaries)
-      let lowKey = midiNote
-      let highKey = midiNote
-
-      if (index > 0) {
-        // Set low key to midpoint between this and previous note
-        const prevNote = sortedEntries[index - 1][0]
-        lowKey = Math.floor((prevNote + midiNote) / 2) + 1
-      } else {
-        // First sample extends down to 0
-        lowKey = 0
-      }
-
-      if (index < sortedEntries.length - 1) {
-        // Set high key to midpoint between this and next note
-        const nextNote = sortedEntries[index + 1][0]
-        highKey = Math.floor((midiNote + nextNote) / 2)
-      } else {
-        // Last sample extends up to 127
-        highKey = 127
-      }
-
-      xml += `    <Keygroup index="${index}">\n`
+      const { lowNote: lowKey, highNote: highKey } = keyRanges[index]
+      const instrument = createInstrument(index, { lowNote: lowKey, highNote: highKey })
 
       // Calculate velocity ranges for each sample
       const velocityStep = Math.floor(127 / velocitySamples.length)
@@ -135,22 +105,41 @@ export class XPMGenerator {
       velocitySamples.forEach((sample, velIndex) => {
         const lowVel = velIndex * velocityStep + 1
         const highVel = velIndex === velocitySamples.length - 1 ? 127 : (velIndex + 1) * velocityStep
-        const samplePath = this.formatSamplePath(sample.name)
 
-        xml += `      <Zone>\n`
-        xml += `        <Sample name="${sample.name}" path="${samplePath}"/>\n`
-        xml += `        <KeyRange root="${midiNote}" low="${lowKey}" high="${highKey}"/>\n`
-        xml += `        <VelocityRange low="${lowVel}" high="${highVel}"/>\n`
-        xml += "      </Zone>\n"
+        instrument.layers.push(
+          createLayer(this.createSampleRef(sample), { rootNote: midiNote, velocityLow: lowVel, velocityHigh: highVel }),
+        )
       })
 
-      xml += "    </Keygroup>\n"
+      program.instruments.push(instrument)
     })
 
-    xml += "  </Keygroups>\n"
-    xml += "</KeygroupProgram>"
+    return this.serialize(program)
+  }
+
+  /**
+   * Applies the MPC filename policy to the sample references and serializes the program
+   */
+  private serialize(program: XPMProgram): string {
+    applyFilenamePolicy(program)
+    return serializeXPM(program, this.options.format)
+  }
+
+  /**
+   * Calculates the key range of each of the sorted root notes with the strategy, warning about gaps
+   */
+  private calculateKeyRanges(rootNotes: number[], keyRange?: KeyRangeStrategy): KeyRange[] {
+    const { ranges, gaps } = calculateKeyRanges(rootNotes, keyRange)
+
+    if (gaps.length > 0) {
+      console.warn("Keys not covered by any keygroup:", gaps.map((gap) => `${gap.lowNote}-${gap.highNote}`))
+    }
+
+    return ranges
+  }
 
-    return xml
+  private createSampleRef(sample: Sample): XPMSampleRef {
+    return { name: sample.name, path: this.formatSamplePath(sample.name), sampleId: sample.id }
   }
 
   // New method to format sample paths based on options
@@ -160,7 +149,7 @@ export class XPMGenerator {
     }
 
     // Clean up the sample name to be a valid path
-    const cleanName = sampleName.replace(/[\\/:*?"<>|]/g, "_")
+    const cleanName = sanitizeFilename(sampleName)
 
     // If output directory is specified, create a relative path
     if (this.options.outputDirectory) {
@@ -0,0 +1,178 @@
+import {
+  createInstrument,
+  createLayer,
+  createProgram,
+  type XPMInstrument,
+  type XPMLayer,
+  type XPMLayerPlay,
+  type XPMProgram,
+  type XPMTuning,
+} from "./xpm-program"
+import { attribute, childElement, childElements, floatAttribute, intAttribute } from "./xml-helpers"
+import { parseXML, type XMLElement } from "./xml-parser"
+import { parseMPCProgram } from "./mpc-parser"
+
+export interface XPMParseResult {
+  program: XPMProgram
+  // Paths of elements that have no place in the program model, e.g. "MPCVObject/Program/Instruments/Instrument/LFO"
+  unknownElements: string[]
+}
+
+/**
+ * Parses XPM text in either the MPCVObject schema or the generic dialect into a program
+ */
+export function parseXPM(content: string): XPMProgram {
+  return parseXPMDocument(content).program
+}
+
+/**
+ * Parses XPM text and reports the elements the program model could not hold
+ */
+export function parseXPMDocument(content: string): XPMParseResult {
+  return parseXPMElement(parseXML(content))
+}
+
+/**
+ * Reads a program from an already parsed XML root element
+ */
+export function parseXPMElement(root: XMLElement): XPMParseResult {
+  if (root.name === "MPCVObject") {
+    return parseMPCProgram(root)
+  }
+
+  return { program: parseGenericProgram(root), unknownElements: [] }
+}
+
+function parseGenericProgram(root: XMLElement): XPMProgram {
+  const isDrumkit =
+    root.name === "DrumProgram" || (root.name === "PluginProgram" && attribute(root, "type") === "drumkit")
+
+  const program = createProgram(attribute(root, "name") || "Imported Program", isDrumkit ? "drumkit" : "instrument")
+
+  const settings = childElement(root, "Settings")
+  if (settings) {
+    program.volume = floatAttribute(settings, "level", 1)
+    program.pan = floatAttribute(settings, "pan", 0)
+    program.tuning = parseTuning(settings)
+  }
+
+  if (isDrumkit) {
+    const padElements = childElements(childElement(root, "Pads"), "Pad")
+
+    padElements.forEach((padElement, position) => {
+      const index = intAttribute(padElement, "padIndex", position)
+
+      if (attribute(padElement, "note") !== null) {
+        const note = intAttribute(padElement, "note", 0)
+        const pad = program.pads.find((p) => p.index === index)
+
+        if (pad) {
+          pad.note = note
+        } else {
+          program.pads.push({ index, note })
+        }
+      }
+
+      if (padElement.children.length > 0) {
+        program.instruments.push(parseInstrument(padElement, index))
+      }
+    })
+  } else {
+    const keygroupElements = childElements(childElement(root, "Keygroups"), "Keygroup")
+
+    keygroupElements.forEach((keygroupElement, position) => {
+      program.instruments.push(parseInstrument(keygroupElement, intAttribute(keygroupElement, "index", position)))
+    })
+  }
+
+  return program
+}
+
+function parseInstrument(element: XMLElement, number: number): XPMInstrument {
+  const instrument = createInstrument(number, {
+    lowNote: intAttribute(element, "low", 0),
+    highNote: intAttribute(element, "high", 127),
+    muteGroup: intAttribute(element, "muteGroup", 0),
+    layerPlay: parseLayerPlay(attribute(element, "layerPlay")),
+  })
+
+  const settings = childElement(element, "Settings")
+  if (settings) {
+    instrument.volume = floatAttribute(settings, "level", 1)
+    instrument.pan = floatAttribute(settings, "pan", 0)
+    instrument.tuning = parseTuning(settings)
+  }
+
+  const envelope = childElement(element, "Envelope")
+  if (envelope) {
+    instrument.envelope = {
+      attack: floatAttribute(envelope, "attack", 0),
+      decay: floatAttribute(envelope, "decay", 0),
+      sustain: floatAttribute(envelope, "sustain", 1),
+      release: floatAttribute(envelope, "release", 0),
+    }
+  }
+
+  const filter = childElement(element, "Filter")
+  if (filter) {
+    instrument.filter = {
+      type: intAttribute(filter, "type", 0),
+      cutoff: floatAttribute(filter, "cutoff", 1),
+      resonance: floatAttribute(filter, "resonance", 0),
+    }
+  }
+
+  // Older drum programs put the sample directly inside the pad
+  const zoneElements = childElement(element, "Sample") ? [element] : childElements(element, "Zone")
+
+  for (const zoneElement of zoneElements) {
+    const layer = parseLayer(zoneElement)
+    if (layer) instrument.layers.push(layer)
+  }
+
+  return instrument
+}
+
+function parseLayer(zoneElement: XMLElement): XPMLayer | null {
+  const sampleElement = childElement(zoneElement, "Sample")
+  if (!sampleElement) return null
+
+  // A missing path is left empty for the repair engine to report
+  const name = attribute(sampleElement, "name") || ""
+  const path = attribute(sampleElement, "path") || ""
+
+  const keyRange = childElement(zoneElement, "KeyRange")
+  const velocityRange = childElement(zoneElement, "VelocityRange")
+  const settings = childElement(zoneElement, "Settings")
+  const loop = childElement(zoneElement, "Loop")
+
+  return createLayer(
+    { name, path },
+    {
+      rootNote: keyRange ? intAttribute(keyRange, "root", 60) : 60,
+      velocityLow: velocityRange ? intAttribute(velocityRange, "low", 0) : 0,
+      velocityHigh: velocityRange ? intAttribute(velocityRange, "high", 127) : 127,
+      volume: settings ? floatAttribute(settings, "level", 1) : 1,
+      pan: settings ? floatAttribute(settings, "pan", 0) : 0,
+      tuning: settings ? parseTuning(settings) : { coarse: 0, fine: 0 },
+      loop: {
+        enabled: loop !== null && attribute(loop, "enabled") === "true",
+        start: loop ? intAttribute(loop, "start", 0) : 0,
+        end: loop ? intAttribute(loop, "end", 0) : 0,
+        crossfade: loop ? intAttribute(loop, "crossfade", 0) : 0,
+      },
+    },
+  )
+}
+
+function parseLayerPlay(value: string | null): XPMLayerPlay {
+  const modes: XPMLayerPlay[] = ["velocity", "cycle", "random", "randomAdditive"]
+  return modes.find((mode) => mode === value) || "velocity"
+}
+
+function parseTuning(settings: XMLElement): XPMTuning {
+  return {
+    coarse: intAttribute(settings, "tune", 0),
+    fine: floatAttribute(settings, "fine", 0),
+  }
+}
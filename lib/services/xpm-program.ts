@@ -0,0 +1,209 @@
+import { sanitizeFilename } from "./mpc-filename"
+
+// In-memory model of an MPC program, shared by every XPM writer, generator and importer
+
+export type XPMProgramType = "drumkit" | "instrument"
+
+export interface XPMSampleRef {
+  name: string
+  path: string
+  sampleId?: string // the loaded sample the reference was built from, never serialized
+}
+
+// Envelope stages use the MPC's normalized 0-1 scale
+export interface XPMEnvelope {
+  attack: number
+  decay: number
+  sustain: number
+  release: number
+}
+
+export interface XPMFilter {
+  type: number // 0 = off, otherwise the MPC filter type index
+  cutoff: number
+  resonance: number
+}
+
+export interface XPMTuning {
+  coarse: number // semitones
+  fine: number // cents
+}
+
+// Loop points are sample frames
+export interface XPMLoop {
+  enabled: boolean
+  start: number
+  end: number
+  crossfade: number
+}
+
+export interface XPMLayer {
+  sample: XPMSampleRef
+  rootNote: number
+  velocityLow: number
+  velocityHigh: number
+  volume: number
+  pan: number // -1 (left) to 1 (right)
+  tuning: XPMTuning
+  loop: XPMLoop
+}
+
+// How the layers of an instrument are chosen: by velocity range, or taking turns among the layers whose
+// velocity range matches (cycle in order, random, or random without repeating the last layer)
+export type XPMLayerPlay = "velocity" | "cycle" | "random" | "randomAdditive"
+
+export interface XPMInstrument {
+  number: number
+  lowNote: number
+  highNote: number
+  volume: number
+  pan: number
+  tuning: XPMTuning
+  envelope: XPMEnvelope
+  filter: XPMFilter
+  muteGroup: number // 0 = none
+  layerPlay: XPMLayerPlay
+  layers: XPMLayer[]
+}
+
+// Drum programs trigger the instrument whose number matches the pad index
+export interface XPMPad {
+  index: number
+  note: number
+}
+
+export interface XPMProgram {
+  name: string
+  type: XPMProgramType
+  volume: number
+  pan: number
+  tuning: XPMTuning
+  instruments: XPMInstrument[]
+  pads: XPMPad[]
+}
+
+export const PAD_BANKS = ["A", "B", "C", "D", "E", "F", "G", "H"]
+export const PADS_PER_BANK = 16
+export const DRUM_PAD_COUNT = PAD_BANKS.length * PADS_PER_BANK
+
+// MPC drum programs start their pad note map at C#1 (37)
+const FIRST_PAD_NOTE = 37
+
+/**
+ * Creates an empty program. Drum programs start with the default note for every pad.
+ */
+export function createProgram(name: string, type: XPMProgramType): XPMProgram {
+  const pads: XPMPad[] = []
+
+  if (type === "drumkit") {
+    for (let index = 0; index < DRUM_PAD_COUNT; index++) {
+      pads.push({ index, note: defaultPadNote(index) })
+    }
+  }
+
+  return {
+    name,
+    type,
+    volume: 1,
+    pan: 0,
+    tuning: { coarse: 0, fine: 0 },
+    instruments: [],
+    pads,
+  }
+}
+
+export function createInstrument(number: number, options: Partial<XPMInstrument> = {}): XPMInstrument {
+  return {
+    number,
+    lowNote: 0,
+    highNote: 127,
+    volume: 1,
+    pan: 0,
+    tuning: { coarse: 0, fine: 0 },
+    envelope: { attack: 0, decay: 0, sustain: 1, release: 0 },
+    filter: { type: 0, cutoff: 1, resonance: 0 },
+    muteGroup: 0,
+    layerPlay: "velocity",
+    layers: [],
+    ...options,
+  }
+}
+
+export function createLayer(sample: XPMSampleRef, options: Partial<XPMLayer> = {}): XPMLayer {
+  return {
+    sample,
+    rootNote: 60,
+    velocityLow: 0,
+    velocityHigh: 127,
+    volume: 1,
+    pan: 0,
+    tuning: { coarse: 0, fine: 0 },
+    loop: { enabled: false, start: 0, end: 0, crossfade: 0 },
+    ...options,
+  }
+}
+
+/**
+ * Creates a sample reference using the default `samples/` folder layout
+ */
+export function createSampleRef(sampleName: string, sampleId?: string): XPMSampleRef {
+  const sample: XPMSampleRef = { name: sampleName, path: `samples/${sanitizeFilename(sampleName)}` }
+  if (sampleId) sample.sampleId = sampleId
+  return sample
+}
+
+/**
+ * Returns the default trigger note for a pad index
+ */
+export function defaultPadNote(padIndex: number): number {
+  return Math.min(127, FIRST_PAD_NOTE + padIndex)
+}
+
+/**
+ * Converts a pad label such as "A01" or "H16" to a zero-based pad index
+ */
+export function padIndexFromLabel(label: string): number | null {
+  const match = /^([A-H])(\d{1,2})$/i.exec(label.trim())
+  if (!match) return null
+
+  const bankIndex = PAD_BANKS.indexOf(match[1].toUpperCase())
+  const padNumber = Number.parseInt(match[2], 10)
+  if (padNumber < 1 || padNumber > PADS_PER_BANK) return null
+
+  return bankIndex * PADS_PER_BANK + padNumber - 1
+}
+
+/**
+ * Converts a zero-based pad index to its label, e.g. 0 -> "A01"
+ */
+export function padLabelFromIndex(padIndex: number): string {
+  const bank = PAD_BANKS[Math.floor(padIndex / PADS_PER_BANK)] || "?"
+  return `${bank}${((padIndex % PADS_PER_BANK) + 1).toString().padStart(2, "0")}`
+}
+
+/**
+ * Describes an instrument for messages, e.g. "pad A01" or "keygroup 3"
+ */
+export function instrumentLabel(program: XPMProgram, instrument: XPMInstrument): string {
+  return program.type === "drumkit"
+    ? `pad ${padLabelFromIndex(instrument.number)}`
+    : `keygroup ${instrument.number + 1}`
+}
+
+/**
+ * Returns every distinct sample referenced by the program, in layer order
+ */
+export function collectSampleRefs(program: XPMProgram): XPMSampleRef[] {
+  const samples = new Map<string, XPMSampleRef>()
+
+  for (const instrument of program.instruments) {
+    for (const layer of instrument.layers) {
+      const key = layer.sample.sampleId || layer.sample.path || layer.sample.name
+      if (!samples.has(key)) {
+        samples.set(key, layer.sample)
+      }
+    }
+  }
+
+  return Array.from(samples.values())
+}
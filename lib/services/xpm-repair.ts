@@ -0,0 +1,318 @@
+import { MPC_FILE_VERSION } from "./mpc-serializer"
+import {
+  createSampleRef,
+  DRUM_PAD_COUNT,
+  instrumentLabel,
+  type XPMLayer,
+  type XPMProgram,
+} from "./xpm-program"
+import { parseXPMElement } from "./xpm-parser"
+import { serializeXPM, type XPMFormat } from "./xpm-serializer"
+import { childElement, childText } from "./xml-helpers"
+import { parseXMLTolerant, type XMLElement } from "./xml-parser"
+
+export interface XPMFixChange {
+  rule: string
+  message: string
+}
+
+export interface XPMFixContext {
+  program: XPMProgram
+  source?: XMLElement // the parsed document, absent when repairing a program built in memory
+  format: XPMFormat
+}
+
+export interface XPMFixRule {
+  id: string
+  name: string
+  // Mutates the program in place and returns one message per change made, or per problem it had to leave
+  apply(context: XPMFixContext): string[]
+}
+
+export interface XPMRepairOptions {
+  rules?: string[] // rule IDs to run, defaults to all
+  format?: XPMFormat
+}
+
+export interface XPMRepairResult {
+  original: XPMProgram
+  program: XPMProgram
+  content: string
+  changes: XPMFixChange[]
+  unknownElements: string[]
+}
+
+// Recovered XML problems are logged under this rule ID
+export const XML_STRUCTURE_RULE = "xml-structure"
+
+export const XPM_FIX_RULES: XPMFixRule[] = [
+  {
+    id: "missing-sample-paths",
+    name: "Missing sample paths",
+    apply: ({ program }) => {
+      const changes: string[] = []
+
+      for (const instrument of program.instruments) {
+        instrument.layers = instrument.layers.filter((layer, index) => {
+          if (!layer.sample.name && !layer.sample.path) {
+            changes.push(`Removed layer ${index + 1} of ${instrumentLabel(program, instrument)}, which has no sample`)
+            return false
+          }
+
+          if (!layer.sample.name) {
+            layer.sample.name = layer.sample.path.replace(/\\/g, "/").split("/").pop() || layer.sample.path
+            changes.push(`Set missing sample name to "${layer.sample.name}" from its path`)
+          }
+
+          if (!layer.sample.path) {
+            layer.sample.path = createSampleRef(layer.sample.name).path
+            changes.push(`Set missing path of "${layer.sample.name}" to "${layer.sample.path}"`)
+          }
+
+          return true
+        })
+      }
+
+      return changes
+    },
+  },
+  {
+    id: "duplicate-instrument-numbers",
+    name: "Duplicate instrument numbers",
+    apply: ({ program }) => {
+      const changes: string[] = []
+      const used = new Set<number>()
+      const limit = program.type === "drumkit" ? DRUM_PAD_COUNT : Number.MAX_SAFE_INTEGER
+
+      for (const instrument of program.instruments) {
+        if (!used.has(instrument.number)) {
+          used.add(instrument.number)
+          continue
+        }
+
+        let number = 0
+        while (used.has(number) && number < limit) number++
+
+        if (number >= limit) {
+          changes.push(`No free slot for duplicate instrument ${instrument.number}`)
+          continue
+        }
+
+        changes.push(`Renumbered duplicate instrument ${instrument.number} to ${number}`)
+        instrument.number = number
+        used.add(number)
+      }
+
+      return changes
+    },
+  },
+  {
+    id: "out-of-range-root-notes",
+    name: "Out-of-range root notes",
+    apply: ({ program }) => {
+      const changes: string[] = []
+
+      for (const instrument of program.instruments) {
+        for (const layer of instrument.layers) {
+          const rootNote = clampMidi(layer.rootNote)
+          if (rootNote !== layer.rootNote) {
+            changes.push(`Moved root note of "${layer.sample.name}" from ${layer.rootNote} to ${rootNote}`)
+            layer.rootNote = rootNote
+          }
+        }
+      }
+
+      return changes
+    },
+  },
+  {
+    id: "overlapping-key-ranges",
+    name: "Overlapping key ranges",
+    apply: ({ program }) => {
+      if (program.type !== "instrument") return []
+
+      const changes: string[] = []
+
+      for (const instrument of program.instruments) {
+        const low = clampMidi(Math.min(instrument.lowNote, instrument.highNote))
+        const high = clampMidi(Math.max(instrument.lowNote, instrument.highNote))
+
+        if (low !== instrument.lowNote || high !== instrument.highNote) {
+          changes.push(
+            `Corrected key range of ${instrumentLabel(program, instrument)} from ` +
+              `${instrument.lowNote}-${instrument.highNote} to ${low}-${high}`,
+          )
+          instrument.lowNote = low
+          instrument.highNote = high
+        }
+      }
+
+      const sorted = [...program.instruments].sort((a, b) => a.lowNote - b.lowNote || a.highNote - b.highNote)
+
+      // Compare each range with the one reaching highest so far, which it overlaps if any earlier one does
+      let highest = sorted[0]
+
+      for (const current of sorted.slice(1)) {
+        if (current.lowNote > highest.highNote) {
+          highest = current
+          continue
+        }
+
+        // Ranges nested inside another cannot be split without dropping one of them
+        if (current.highNote <= highest.highNote) {
+          changes.push(
+            `Left ${instrumentLabel(program, current)} overlapping, as its keys ` +
+              `${current.lowNote}-${current.highNote} lie within ${instrumentLabel(program, highest)}`,
+          )
+          continue
+        }
+
+        // Split the overlapping keys at their midpoint
+        const boundary = Math.floor((highest.highNote + current.lowNote) / 2)
+        changes.push(
+          `Split overlap between ${instrumentLabel(program, highest)} and ` +
+            `${instrumentLabel(program, current)} at note ${boundary}`,
+        )
+        highest.highNote = boundary
+        current.lowNote = boundary + 1
+        highest = current
+      }
+
+      return changes
+    },
+  },
+  {
+    id: "velocity-gaps",
+    name: "Velocity gaps",
+    apply: ({ program }) => {
+      const changes: string[] = []
+
+      for (const instrument of program.instruments) {
+        if (instrument.layers.length === 0) continue
+
+        const label = instrumentLabel(program, instrument)
+        for (const layer of instrument.layers) {
+          const low = clampMidi(Math.min(layer.velocityLow, layer.velocityHigh))
+          const high = clampMidi(Math.max(layer.velocityLow, layer.velocityHigh))
+
+          if (low !== layer.velocityLow || high !== layer.velocityHigh) {
+            changes.push(
+              `Corrected velocity range of "${layer.sample.name}" in ${label} from ` +
+                `${layer.velocityLow}-${layer.velocityHigh} to ${low}-${high}`,
+            )
+            layer.velocityLow = low
+            layer.velocityHigh = high
+          }
+        }
+
+        changes.push(...fillVelocityGaps(instrument.layers, label))
+      }
+
+      return changes
+    },
+  },
+  {
+    id: "file-version",
+    name: "File version",
+    apply: ({ source, format }) => {
+      if (!source || format !== "mpc") return []
+
+      if (source.name !== "MPCVObject") {
+        return [`Converted <${source.name}> to MPCVObject version ${MPC_FILE_VERSION}`]
+      }
+
+      const versionElement = childElement(source, "Version")
+      const version = versionElement ? childText(versionElement, "File_Version") : null
+      if (version === MPC_FILE_VERSION) return []
+
+      return [`Updated file version from ${version || "missing"} to ${MPC_FILE_VERSION}`]
+    },
+  },
+]
+
+/**
+ * Parses possibly broken XPM content, runs the fix rules and re-serializes the program
+ */
+export function repairXPM(content: string, options: XPMRepairOptions = {}): XPMRepairResult {
+  const format = options.format || "mpc"
+  const { root, issues } = parseXMLTolerant(content)
+  const { program, unknownElements } = parseXPMElement(root)
+
+  const original: XPMProgram = JSON.parse(JSON.stringify(program))
+  const changes: XPMFixChange[] = issues.map((issue) => ({
+    rule: XML_STRUCTURE_RULE,
+    message: `${issue.message} (line ${issue.line}, column ${issue.column})`,
+  }))
+
+  changes.push(...runFixRules({ program, source: root, format }, options.rules))
+
+  return {
+    original,
+    program,
+    content: serializeXPM(program, format),
+    changes,
+    unknownElements,
+  }
+}
+
+/**
+ * Runs the fix rules over a program built in memory, modifying it in place
+ */
+export function repairProgram(program: XPMProgram, options: XPMRepairOptions = {}): XPMFixChange[] {
+  return runFixRules({ program, format: options.format || "mpc" }, options.rules)
+}
+
+function runFixRules(context: XPMFixContext, ruleIds?: string[]): XPMFixChange[] {
+  const changes: XPMFixChange[] = []
+
+  for (const rule of XPM_FIX_RULES) {
+    if (ruleIds && !ruleIds.includes(rule.id)) continue
+
+    for (const message of rule.apply(context)) {
+      changes.push({ rule: rule.id, message })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Extends layers so velocities 1-127 are all covered, reporting each extension
+ */
+function fillVelocityGaps(layers: XPMLayer[], label: string): string[] {
+  const changes: string[] = []
+  const sorted = [...layers].sort((a, b) => a.velocityLow - b.velocityLow)
+
+  // Velocity 0 is never played, so coverage only has to start at 1
+  if (sorted[0].velocityLow > 1) {
+    changes.push(`Extended "${sorted[0].sample.name}" in ${label} down from velocity ${sorted[0].velocityLow} to 1`)
+    sorted[0].velocityLow = 1
+  }
+
+  let highest = sorted[0]
+
+  for (const layer of sorted.slice(1)) {
+    if (layer.velocityLow > highest.velocityHigh + 1) {
+      changes.push(
+        `Filled velocity gap ${highest.velocityHigh + 1}-${layer.velocityLow - 1} in ${label} ` +
+          `by extending "${highest.sample.name}"`,
+      )
+      highest.velocityHigh = layer.velocityLow - 1
+    }
+
+    if (layer.velocityHigh > highest.velocityHigh) {
+      highest = layer
+    }
+  }
+
+  if (highest.velocityHigh < 127) {
+    changes.push(`Extended "${highest.sample.name}" in ${label} up from velocity ${highest.velocityHigh} to 127`)
+    highest.velocityHigh = 127
+  }
+
+  return changes
+}
+
+function clampMidi(value: number): number {
+  return Math.max(0, Math.min(127, value))
+}
@@ -0,0 +1,127 @@
+import type { XPMEnvelope, XPMFilter, XPMInstrument, XPMLayer, XPMLoop, XPMProgram, XPMTuning } from "./xpm-program"
+import { serializeMPCProgram } from "./mpc-serializer"
+import { escapeXML } from "./xml-escape"
+
+// "mpc" writes the MPCVObject schema loaded by MPC Software and firmware
+export const XPM_FORMATS = ["mpc", "generic"] as const
+export type XPMFormat = (typeof XPM_FORMATS)[number]
+
+/**
+ * Serializes a program to XPM text in the requested format
+ */
+export function serializeXPM(program: XPMProgram, format: XPMFormat = "mpc"): string {
+  return format === "mpc" ? serializeMPCProgram(program) : serializeGenericProgram(program)
+}
+
+/**
+ * Writes the generic dialect. `parseXPM(serializeXPM(program, "generic"))` returns an equal program.
+ */
+function serializeGenericProgram(program: XPMProgram): string {
+  const isDrumkit = program.type === "drumkit"
+  const rootTag = isDrumkit ? "DrumProgram" : "KeygroupProgram"
+
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>']
+  lines.push(`<${rootTag}${attributes({ name: program.name })}>`)
+  lines.push(`  ${settingsElement(program.volume, program.pan, program.tuning)}`)
+
+  if (isDrumkit) {
+    lines.push("  <Pads>")
+    for (const padIndex of drumPadIndices(program)) {
+      const pad = program.pads.find((p) => p.index === padIndex)
+      const instrument = program.instruments.find((i) => i.number === padIndex)
+      const attrs = attributes({ padIndex, note: pad?.note })
+
+      if (!instrument) {
+        lines.push(`    <Pad${attrs}/>`)
+        continue
+      }
+
+      lines.push(`    <Pad${attrs}${instrumentAttributes(instrument)}>`)
+      lines.push(...instrumentBody(instrument, "      "))
+      lines.push("    </Pad>")
+    }
+    lines.push("  </Pads>")
+  } else {
+    lines.push("  <Keygroups>")
+    for (const instrument of program.instruments) {
+      lines.push(`    <Keygroup${attributes({ index: instrument.number })}${instrumentAttributes(instrument)}>`)
+      lines.push(...instrumentBody(instrument, "      "))
+      lines.push("    </Keygroup>")
+    }
+    lines.push("  </Keygroups>")
+  }
+
+  lines.push(`</${rootTag}>`)
+  return lines.join("\n")
+}
+
+/**
+ * Returns the union of pad and instrument indices, sorted
+ */
+function drumPadIndices(program: XPMProgram): number[] {
+  const indices = new Set<number>()
+  program.pads.forEach((pad) => indices.add(pad.index))
+  program.instruments.forEach((instrument) => indices.add(instrument.number))
+  return Array.from(indices).sort((a, b) => a - b)
+}
+
+function instrumentAttributes(instrument: XPMInstrument): string {
+  return attributes({
+    low: instrument.lowNote,
+    high: instrument.highNote,
+    muteGroup: instrument.muteGroup,
+    layerPlay: instrument.layerPlay,
+  })
+}
+
+function instrumentBody(instrument: XPMInstrument, indent: string): string[] {
+  const lines = [
+    indent + settingsElement(instrument.volume, instrument.pan, instrument.tuning),
+    indent + envelopeElement(instrument.envelope),
+    indent + filterElement(instrument.filter),
+  ]
+
+  for (const layer of instrument.layers) {
+    lines.push(...zoneElement(layer, instrument, indent))
+  }
+
+  return lines
+}
+
+function zoneElement(layer: XPMLayer, instrument: XPMInstrument, indent: string): string[] {
+  return [
+    `${indent}<Zone>`,
+    `${indent}  <Sample${attributes({ name: layer.sample.name, path: layer.sample.path })}/>`,
+    `${indent}  <KeyRange${attributes({ root: layer.rootNote, low: instrument.lowNote, high: instrument.highNote })}/>`,
+    `${indent}  <VelocityRange${attributes({ low: layer.velocityLow, high: layer.velocityHigh })}/>`,
+    `${indent}  ${settingsElement(layer.volume, layer.pan, layer.tuning)}`,
+    `${indent}  ${loopElement(layer.loop)}`,
+    `${indent}</Zone>`,
+  ]
+}
+
+function settingsElement(volume: number, pan: number, tuning: XPMTuning): string {
+  return `<Settings${attributes({ level: volume, pan, tune: tuning.coarse, fine: tuning.fine })}/>`
+}
+
+function envelopeElement(envelope: XPMEnvelope): string {
+  return `<Envelope${attributes({ ...envelope })}/>`
+}
+
+function filterElement(filter: XPMFilter): string {
+  return `<Filter${attributes({ ...filter })}/>`
+}
+
+function loopElement(loop: XPMLoop): string {
+  return `<Loop${attributes({ enabled: String(loop.enabled), start: loop.start, end: loop.end, crossfade: loop.crossfade })}/>`
+}
+
+/**
+ * Formats attributes, skipping undefined values
+ */
+function attributes(values: { [key: string]: string | number | undefined }): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXML(String(value))}"`)
+    .join("")
+}
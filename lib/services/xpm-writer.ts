@@ -1,5 +1,17 @@
-import type { Instrument } from "./instrument-service"
+import { layerSamples, type Instrument } from "./instrument-service"
 import SampleManager from "../sample-manager"
+import {
+  createInstrument,
+  createLayer,
+  createProgram,
+  createSampleRef,
+  padIndexFromLabel,
+  type XPMProgram,
+  type XPMProgramType,
+} from "./xpm-program"
+import { serializeXPM, type XPMFormat } from "./xpm-serializer"
+import { MPC_MAX_LAYERS } from "./mpc-serializer"
+import { applyFilenamePolicy } from "./mpc-filename"
 
 export interface XPMZone {
   file: string
@@ -8,91 +20,147 @@ export interface XPMZone {
   high: number
   velLow: number
   velHigh: number
+  sampleId?: string
+  fineTune?: number // cents the sample is off its root note
 }
 
 export class XPMWriter {
-  private instrumentName: string
-  private programType: "keygroup" | "drumkit"
+  public readonly instrumentName: string
+  public readonly programType: XPMProgramType
+  private format: XPMFormat
 
-  constructor(instrumentName = "MyInstrument", programType: "keygroup" | "drumkit" = "keygroup") {
+  constructor(instrumentName = "MyInstrument", programType: XPMProgramType = "instrument", format: XPMFormat = "mpc") {
     this.instrumentName = instrumentName
     this.programType = programType
+    this.format = format
   }
 
   public createXPM(instrument: Instrument): string {
-    const zones = this.createZonesFromInstrument(instrument)
-    return this.generateXPMContent(zones)
+    return serializeXPM(this.buildInstrumentProgram(instrument), this.format)
   }
 
   public createDrumKitXPM(kitName: string, padAssignments: { [padId: string]: string }): string {
-    let xpmContent = `<?xml version="1.0" encoding="UTF-8"?>\n`
-    xpmContent += `<PluginProgram name="${kitName}" type="drumkit">\n`
-    xpmContent += `  <ProgramInfo>\n`
-    xpmContent += `    <Name>${kitName}</Name>\n`
-    xpmContent += `    <Type>drumkit</Type>\n`
-    xpmContent += `    <Created>${new Date().toISOString()}</Created>\n`
-    xpmContent += `  </ProgramInfo>\n`
-    xpmContent += `  <DrumKit>\n`
+    return serializeXPM(this.buildDrumKitProgram(kitName, padAssignments), this.format)
+  }
+
+  public createXPMFromZones(zones: XPMZone[]): string {
+    return serializeXPM(this.buildProgramFromZones(zones), this.format)
+  }
 
+  /**
+   * Builds a keygroup program with one instrument per keygroup
+   */
+  public buildInstrumentProgram(instrument: Instrument): XPMProgram {
+    const program = createProgram(this.instrumentName, "instrument")
     const sampleManager = SampleManager.getInstance()
 
-    for (const padId in padAssignments) {
-      const sampleId = padAssignments[padId]
-      const sample = sampleManager.getSample(sampleId)
+    instrument.keygroups.forEach((keygroup, index) => {
+      const xpmInstrument = createInstrument(index, {
+        lowNote: keygroup.lowNote,
+        highNote: keygroup.highNote,
+      })
+
+      // Round robins become layers sharing their velocity range, which the MPC takes turns between. Its cycle
+      // modes take turns between every layer of the keygroup, so velocity zones keep only their first sample.
+      const hasRoundRobins = keygroup.velocityLayers.some((layer) => layerSamples(layer).length > 1)
+      const cycles = hasRoundRobins && keygroup.velocityLayers.length === 1
+      if (cycles) {
+        xpmInstrument.layerPlay = keygroup.roundRobinMode || "cycle"
+      } else if (hasRoundRobins) {
+        console.warn(
+          `Keygroup ${index + 1} of "${instrument.name}" has both velocity layers and round robins, ` +
+            "which the MPC cannot play together, so only the first sample of each velocity layer is exported",
+        )
+      }
 
-      if (sample) {
-        xpmContent += `    <Pad id="${padId}" sample="${sample.name}" />\n`
+      for (const layer of keygroup.velocityLayers) {
+        const samples = cycles ? layerSamples(layer) : layerSamples(layer).slice(0, 1)
+
+        for (const { sampleId, fineTune } of samples) {
+          const sample = sampleManager.getSample(sampleId)
+          if (!sample) continue
+
+          xpmInstrument.layers.push(
+            createLayer(createSampleRef(sample.name, sample.id), {
+              rootNote: keygroup.rootNote,
+              velocityLow: layer.lowVelocity,
+              velocityHigh: layer.highVelocity,
+              tuning: { coarse: 0, fine: -(fineTune || 0) },
+            }),
+          )
+        }
+      }
+
+      if (this.format === "mpc" && xpmInstrument.layers.length > MPC_MAX_LAYERS) {
+        console.warn(
+          `Keygroup ${index + 1} of "${instrument.name}" has ${xpmInstrument.layers.length} layers, of which ` +
+            `only the first ${MPC_MAX_LAYERS} are exported`,
+        )
+        xpmInstrument.layers = xpmInstrument.layers.slice(0, MPC_MAX_LAYERS)
       }
-    }
 
-    xpmContent += `  </DrumKit>\n`
-    xpmContent += `</PluginProgram>`
+      program.instruments.push(xpmInstrument)
+    })
 
-    return xpmContent
+    applyFilenamePolicy(program)
+    return program
   }
 
-  private createZonesFromInstrument(instrument: Instrument): XPMZone[] {
-    const zones: XPMZone[] = []
+  /**
+   * Builds a drum program from pad labels (A01-H16) mapped to sample IDs
+   */
+  public buildDrumKitProgram(kitName: string, padAssignments: { [padId: string]: string }): XPMProgram {
+    const program = createProgram(kitName, "drumkit")
     const sampleManager = SampleManager.getInstance()
 
-    for (const keygroup of instrument.keygroups) {
-      for (const layer of keygroup.velocityLayers) {
-        if (!layer.sampleId) continue
-
-        const sample = sampleManager.getSample(layer.sampleId)
-        if (!sample) continue
-
-        zones.push({
-          file: sample.name,
-          root: keygroup.rootNote,
-          low: keygroup.lowNote,
-          high: keygroup.highNote,
-          velLow: layer.lowVelocity,
-          velHigh: layer.highVelocity,
-        })
-      }
+    for (const padId in padAssignments) {
+      const padIndex = padIndexFromLabel(padId)
+      if (padIndex === null) continue
+
+      const sample = sampleManager.getSample(padAssignments[padId])
+      if (!sample) continue
+
+      const note = program.pads[padIndex].note
+      program.instruments.push(
+        createInstrument(padIndex, {
+          lowNote: note,
+          highNote: note,
+          layers: [createLayer(createSampleRef(sample.name, sample.id), { rootNote: note })],
+        }),
+      )
     }
 
-    return zones
+    program.instruments.sort((a, b) => a.number - b.number)
+
+    applyFilenamePolicy(program)
+    return program
   }
 
-  private generateXPMContent(zones: XPMZone[]): string {
-    let xpmContent = `<?xml version="1.0" encoding="UTF-8"?>\n`
-    xpmContent += `<PluginProgram name="${this.instrumentName}" type="${this.programType}">\n`
-    xpmContent += `  <ProgramInfo>\n`
-    xpmContent += `    <Name>${this.instrumentName}</Name>\n`
-    xpmContent += `    <Type>${this.programType}</Type>\n`
-    xpmContent += `    <Created>${new Date().toISOString()}</Created>\n`
-    xpmContent += `  </ProgramInfo>\n`
-    xpmContent += `  <Keygroup>\n`
+  /**
+   * Builds a program from flat zones, grouping zones that share a key range into one instrument
+   */
+  public buildProgramFromZones(zones: XPMZone[]): XPMProgram {
+    const program = createProgram(this.instrumentName, this.programType)
 
     for (const zone of zones) {
-      xpmContent += `    <Zone file="${zone.file}" root="${zone.root}" low="${zone.low}" high="${zone.high}" vel_low="${zone.velLow}" vel_high="${zone.velHigh}" />\n`
-    }
+      let instrument = program.instruments.find((i) => i.lowNote === zone.low && i.highNote === zone.high)
+
+      if (!instrument) {
+        instrument = createInstrument(program.instruments.length, { lowNote: zone.low, highNote: zone.high })
+        program.instruments.push(instrument)
+      }
 
-    xpmContent += `  </Keygroup>\n`
-    xpmContent += `</PluginProgram>`
+      instrument.layers.push(
+        createLayer(createSampleRef(zone.file, zone.sampleId), {
+          rootNote: zone.root,
+          velocityLow: zone.velLow,
+          velocityHigh: zone.velHigh,
+          tuning: { coarse: 0, fine: -(zone.fineTune || 0) },
+        }),
+      )
+    }
 
-    return xpmContent
+    applyFilenamePolicy(program)
+    return program
   }
 }
@@ -0,0 +1,102 @@
+// Minimal ZIP writer storing entries uncompressed; WAV audio barely deflates, so this keeps exports fast
+
+export interface ZipEntry {
+  path: string // forward slashes, relative to the archive root
+  data: Uint8Array | ArrayBuffer | string
+}
+
+let crcTable: Uint32Array | null = null
+
+/**
+ * Builds a ZIP archive from the entries, in order
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const centralDirectory: Uint8Array[] = []
+  const { time, date } = dosDateTime(new Date())
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const data =
+      typeof entry.data === "string"
+        ? encoder.encode(entry.data)
+        : entry.data instanceof Uint8Array
+          ? entry.data
+          : new Uint8Array(entry.data)
+    const checksum = crc32(data)
+
+    // Local file header
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, checksum, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    // Central directory header
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true) // version made by
+    central.setUint16(6, 20, true)
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, checksum, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, data)
+    centralDirectory.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + data.length
+  }
+
+  const directorySize = centralDirectory.reduce((size, part) => size + part.length, 0)
+
+  // End of central directory record
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: "application/zip" })
+}
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(value: Date): { time: number; date: number } {
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  }
+}